@@ -2,6 +2,7 @@ import { createClient } from '@supabase/supabase-js'
 import { Hono } from 'hono'
 import { errorHandler } from './src/middleware/errorHandler.ts'
 import router from './src/routes/index.ts'
+import { scheduler } from './src/scheduler.ts'
 import { ApiError } from './src/utils/validation.ts'
 
 // 初始化 Supabase 客户端
@@ -10,6 +11,16 @@ const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!
 
 export const supabase = createClient(supabaseUrl, supabaseKey)
 
+// 管理端客户端 (service role,不受 RLS 限制,可读写 inactive 壁纸和未开放 RLS 策略的表)
+// 仅用于管理接口和后台任务 (爬取、链接检查、标签词典与别名、多语言翻译等),
+// 未配置时回退到 anon 客户端 (管理接口看不到 inactive 壁纸,后台任务无法写入)
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+if (!serviceRoleKey) {
+  console.warn('⚠️ 未配置 SUPABASE_SERVICE_ROLE_KEY,管理接口和后台任务无法读写受 RLS 限制的数据')
+}
+
+export const supabaseAdmin = serviceRoleKey ? createClient(supabaseUrl, serviceRoleKey) : supabase
+
 // 创建 Hono 应用
 const app = new Hono()
 
@@ -85,24 +96,43 @@ app.onError((err, c) => {
   )
 })
 
-// 优雅关闭处理
-// 后台运行时忽略 SIGINT(Ctrl+C),只响应 SIGTERM(kill 命令)
-Deno.addSignalListener('SIGTERM', () => {
-  console.log('\n👋 收到关闭信号,正在优雅关闭服务...')
-  Deno.exit(0)
-})
+/**
+ * 读取定时任务时间配置,未配置或超出范围时使用默认值
+ */
+function readScheduleEnv(name: string, fallback: number, max: number): number {
+  const value = Number(Deno.env.get(name) ?? fallback)
+  return Number.isInteger(value) && value >= 0 && value <= max ? value : fallback
+}
 
-// 如果是前台运行(开发模式),也支持 Ctrl+C 关闭
-if (Deno.stdin.isTerminal()) {
-  Deno.addSignalListener('SIGINT', () => {
-    console.log('\n👋 收到中断信号,正在关闭服务...')
+// 作为入口运行时才启动服务和定时任务 (测试导入本模块时只创建客户端和路由)
+if (import.meta.main) {
+  // 优雅关闭处理
+  // 后台运行时忽略 SIGINT(Ctrl+C),只响应 SIGTERM(kill 命令)
+  Deno.addSignalListener('SIGTERM', () => {
+    console.log('\n👋 收到关闭信号,正在优雅关闭服务...')
     Deno.exit(0)
   })
-}
 
-// 启动服务器
-const port = Number(Deno.env.get('PORT')) || 8000
+  // 如果是前台运行(开发模式),也支持 Ctrl+C 关闭
+  if (Deno.stdin.isTerminal()) {
+    Deno.addSignalListener('SIGINT', () => {
+      console.log('\n👋 收到中断信号,正在关闭服务...')
+      Deno.exit(0)
+    })
+  }
+
+  // 定时任务 (每天增量爬取,完成后检查媒体链接、刷新搜索建议标签并清理过期的浏览 / 下载事件)
+  if (Deno.env.get('ENABLE_SCHEDULER') === 'true') {
+    scheduler.start(
+      readScheduleEnv('SCHEDULE_HOUR', 2, 23),
+      readScheduleEnv('SCHEDULE_MINUTE', 0, 59),
+    )
+  }
+
+  // 启动服务器
+  const port = Number(Deno.env.get('PORT')) || 8000
 
-console.log(`🚀 Server is running on http://localhost:${port}`)
+  console.log(`🚀 Server is running on http://localhost:${port}`)
 
-Deno.serve({ port }, app.fetch)
+  Deno.serve({ port }, app.fetch)
+}
@@ -1,5 +1,6 @@
 /**
  * 调用生产环境 crawler API
+ * 用法: deno task crawl [incremental|full|refresh] (默认 incremental)
  */
 
 const PRODUCTION_URL = 'http://localhost:8000'
@@ -10,9 +11,12 @@ if (!ADMIN_API_KEY) {
   Deno.exit(1)
 }
 
+const MODE = ['full', 'refresh'].includes(Deno.args[0]) ? Deno.args[0] : 'incremental'
+
 async function triggerCrawl() {
   console.log('📡 正在调用生产环境 crawler API...')
   console.log(`🌐 目标地址: ${PRODUCTION_URL}/api/v1/admin/crawl`)
+  console.log(`🧭 爬取模式: ${MODE}`)
 
   try {
     const response = await fetch(`${PRODUCTION_URL}/api/v1/admin/crawl`, {
@@ -21,6 +25,7 @@ async function triggerCrawl() {
         'X-API-Key': ADMIN_API_KEY!,
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ mode: MODE }),
     })
 
     const data = await response.json()
@@ -0,0 +1,63 @@
+import { OpenAICompatibleProvider } from './openai.ts'
+import { StubProvider } from './stub.ts'
+import type { AIProvider } from './types.ts'
+
+export type { AIProvider, ChatMessage, ChatResponse, TokenUsage } from './types.ts'
+
+/**
+ * 单次任务的 AI 预算 (null 表示不限制)
+ */
+export interface AIBudget {
+  maxTokens: number | null // 累计 token 上限
+  maxRequests: number | null // 累计请求次数上限
+}
+
+/**
+ * 读取正整数环境变量 (未设置或非法时返回 null)
+ */
+function readPositiveInt(name: string): number | null {
+  const value = Number(Deno.env.get(name))
+  return Number.isInteger(value) && value > 0 ? value : null
+}
+
+/**
+ * 按环境变量创建 AI 服务提供方
+ * AI_PROVIDER=stub 使用本地模拟服务;默认使用 OpenAI 兼容接口,未配置 AI_API_KEY 时返回 null (降级策略)
+ */
+export function createAIProvider(): AIProvider | null {
+  const provider = Deno.env.get('AI_PROVIDER') || 'openai'
+
+  if (provider === 'stub') {
+    return new StubProvider()
+  }
+
+  if (provider !== 'openai') {
+    console.warn(`⚠️ 未知的 AI_PROVIDER: ${provider},将使用降级策略`)
+    return null
+  }
+
+  const apiKey = Deno.env.get('AI_API_KEY') || ''
+  if (!apiKey) {
+    return null
+  }
+
+  const temperature = Number(Deno.env.get('AI_TEMPERATURE'))
+
+  return new OpenAICompatibleProvider({
+    baseUrl: Deno.env.get('AI_BASE_URL') || 'https://api.siliconflow.cn/v1/chat/completions',
+    apiKey,
+    model: Deno.env.get('AI_MODEL') || 'deepseek-ai/DeepSeek-V3.2',
+    temperature: Deno.env.get('AI_TEMPERATURE') && !Number.isNaN(temperature) ? temperature : 0.7,
+    maxTokens: readPositiveInt('AI_MAX_TOKENS') ?? 500,
+  })
+}
+
+/**
+ * 读取单次任务的 AI 预算 (AI_RUN_TOKEN_BUDGET / AI_RUN_REQUEST_BUDGET)
+ */
+export function loadAIBudget(): AIBudget {
+  return {
+    maxTokens: readPositiveInt('AI_RUN_TOKEN_BUDGET'),
+    maxRequests: readPositiveInt('AI_RUN_REQUEST_BUDGET'),
+  }
+}
@@ -0,0 +1,66 @@
+import type { AIProvider, ChatMessage, ChatResponse } from './types.ts'
+
+/**
+ * OpenAI 兼容接口配置
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string // chat/completions 完整地址
+  apiKey: string
+  model: string
+  temperature: number
+  maxTokens: number // 单次回复的最大 token 数
+}
+
+/**
+ * OpenAI 兼容的 chat/completions 接口 (OpenAI / SiliconFlow / DeepSeek 等)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai'
+  readonly model: string
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.model = config.model
+  }
+
+  async chat(messages: ChatMessage[]): Promise<ChatResponse> {
+    const response = await fetch(this.config.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxTokens,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`AI API error: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json()
+    const text = data.choices?.[0]?.message?.content?.trim()
+
+    if (!text) {
+      throw new Error('AI 返回空内容')
+    }
+
+    // 部分兼容接口不返回 usage,按 0 计
+    const usage = data.usage ?? {}
+    const promptTokens = Number(usage.prompt_tokens) || 0
+    const completionTokens = Number(usage.completion_tokens) || 0
+
+    return {
+      text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: Number(usage.total_tokens) || promptTokens + completionTokens,
+      },
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type { AIProvider, ChatMessage, ChatResponse } from './types.ts'
+
+/**
+ * 粗略估算 token 数 (约 4 个字符 1 个 token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// 模拟翻译的前缀 (包含目标语言文字,以通过校验)
+const STUB_PREFIXES: Record<string, string> = {
+  ja: 'ウォールペーパー',
+  ko: '배경화면',
+  ru: 'Обои',
+  th: 'วอลเปเปอร์',
+}
+
+/**
+ * 本地模拟服务 (用于测试 / 离线运行)
+ * 不发起网络请求,从提示词中解析原始标题与标签,返回可通过校验的固定格式内容,
+ * 相同输入始终得到相同输出
+ */
+export class StubProvider implements AIProvider {
+  readonly name = 'stub'
+  readonly model = 'stub'
+
+  async chat(messages: ChatMessage[]): Promise<ChatResponse> {
+    // 修复提示词不含原始信息,取第一条包含原始标题的用户消息
+    // (格式见 buildUserPrompt / buildTranslationPrompt)
+    const prompt =
+      messages.find((message) => message.role === 'user' && message.content.includes('原始标题:'))
+        ?.content ?? ''
+
+    const name = prompt.match(/^原始标题: (.*)$/m)?.[1]?.trim() || '未命名'
+    let tags: string[] = []
+    try {
+      tags = JSON.parse(prompt.match(/^(?:需要翻译的)?标签 \(共 \d+ 个\): (.*)$/m)?.[1] ?? '[]')
+    } catch {
+      tags = []
+    }
+
+    // 多语言翻译
+    const locale = prompt.match(/^目标语言: .* \((.+)\)$/m)?.[1]
+    let text: string
+    if (locale) {
+      const prefix = STUB_PREFIXES[locale] ?? `[${locale}]`
+      text = JSON.stringify({
+        name: `${prefix} ${name}`,
+        description: `${prefix} ${name} (stub translation)`,
+        tags: tags.map((tag) => `${prefix} ${tag}`),
+      })
+    } else {
+      text = JSON.stringify({
+        name_zh: `壁纸：${name}`.slice(0, 50),
+        description: `${name} 动态壁纸。本内容由本地模拟服务生成，仅用于测试。`.slice(0, 300),
+        tags_zh: tags.map((tag) => `标签：${tag}`.slice(0, 20)),
+      })
+    }
+
+    const promptTokens = estimateTokens(messages.map((message) => message.content).join(''))
+    const completionTokens = estimateTokens(text)
+
+    return {
+      text,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { assert, assertEquals } from '@std/assert'
+import {
+  buildTranslationPrompt,
+  buildUserPrompt,
+  parseAIContent,
+  parseTranslation,
+  SYSTEM_PROMPT,
+  TRANSLATION_SYSTEM_PROMPT,
+} from '../utils/aiContent.ts'
+import { StubProvider } from './stub.ts'
+
+// 提示词中有名称的全部目标语言
+const LOCALES = ['ja', 'ko', 'fr', 'de', 'es', 'pt-br', 'ru', 'vi', 'th']
+
+const source = {
+  name: 'Sakura Night',
+  name_zh: '夜樱',
+  description: '樱花在夜色中飘落的动态壁纸。',
+  tags: ['sakura', 'night', 'anime-girl'],
+}
+
+Deno.test('模拟翻译对所有目标语言都能通过校验', async () => {
+  const provider = new StubProvider()
+
+  for (const locale of LOCALES) {
+    const { text } = await provider.chat([
+      { role: 'system', content: TRANSLATION_SYSTEM_PROMPT },
+      { role: 'user', content: buildTranslationPrompt(locale, source) },
+    ])
+
+    const result = parseTranslation(text, locale, source.tags)
+    assert(result.success, `${locale}: ${result.success ? '' : result.issues.join('; ')}`)
+    assertEquals(result.data.tags.length, source.tags.length)
+  }
+})
+
+Deno.test('模拟中文内容能通过校验', async () => {
+  const provider = new StubProvider()
+  const { text } = await provider.chat([
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: buildUserPrompt(source.name, source.tags, source.tags) },
+  ])
+
+  const result = parseAIContent(text, source.tags)
+  assert(result.success, result.success ? '' : result.issues.join('; '))
+})
+
+Deno.test('只含汉字的日语描述不能通过校验', () => {
+  const text = JSON.stringify({
+    name: '夜桜',
+    description: '夜桜動態壁紙 (测试)',
+    tags: ['桜', '夜', '少女'],
+  })
+
+  assert(!parseTranslation(text, 'ja', source.tags).success)
+})
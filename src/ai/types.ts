@@ -0,0 +1,41 @@
+/**
+ * AI 对话消息
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * Token 用量 (取自接口响应的 usage 字段)
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+/**
+ * 对话结果
+ */
+export interface ChatResponse {
+  text: string
+  usage: TokenUsage
+}
+
+/**
+ * AI 服务提供方
+ * 只负责发起一次对话请求;并发、重试、校验与降级由 CrawlerService 统一完成
+ */
+export interface AIProvider {
+  /** 提供方标识 (如 openai / stub) */
+  readonly name: string
+
+  /** 模型名称 (写入 wallpapers.ai_model) */
+  readonly model: string
+
+  /**
+   * 发起对话,返回回复文本与 token 用量 (回复为空时抛出错误)
+   */
+  chat(messages: ChatMessage[]): Promise<ChatResponse>
+}
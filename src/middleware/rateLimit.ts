@@ -0,0 +1,23 @@
+// 速率限制中间件
+import type { Context, Next } from 'hono'
+import { ApiError, globalRateLimiter } from '../utils/validation.ts'
+
+/**
+ * 获取客户端 IP
+ * x-forwarded-for 的前几段可由客户端伪造,只取最后一段 (由最近一层反向代理追加)
+ */
+export function getClientIp(c: Context): string {
+  const forwarded = c.req.header('x-forwarded-for')?.split(',').pop()?.trim()
+  return forwarded || c.req.header('x-real-ip') || 'unknown'
+}
+
+/**
+ * 公开接口速率限制中间件 (按客户端 IP)
+ */
+export async function rateLimit(c: Context, next: Next) {
+  if (!globalRateLimiter.check(getClientIp(c))) {
+    throw new ApiError(429, '请求过于频繁,请稍后再试', 'RATE_LIMIT_EXCEEDED')
+  }
+
+  await next()
+}
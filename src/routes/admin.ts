@@ -1,10 +1,80 @@
 import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
 import { asyncHandler } from '../middleware/errorHandler.ts'
+import { getClientIp } from '../middleware/rateLimit.ts'
+import { supabaseAdmin } from '../../main.ts'
 import { CrawlerService } from '../services/crawler.ts'
-import { adminRateLimiter, ApiError } from '../utils/validation.ts'
+import { LinkCheckerService } from '../services/linkChecker.ts'
+import { SuggestionService } from '../services/suggestions.ts'
+import { TagAliasService } from '../services/tagAliases.ts'
+import { TagDictionaryService } from '../services/tagDictionary.ts'
+import { TagNormalizerService } from '../services/tagNormalizer.ts'
+import { WallpaperAdminService } from '../services/wallpaperAdmin.ts'
+import {
+  MAX_BULK_ENRICH_SIZE,
+  MAX_BULK_SIZE,
+  WallpaperBulkService,
+} from '../services/wallpaperBulk.ts'
+import { getSource } from '../sources/index.ts'
+import { PROMPT_VERSION, TRANSLATION_PROMPT_VERSION } from '../utils/aiContent.ts'
+import { getTargetLocales } from '../utils/locale.ts'
+import { normalizeTag } from '../utils/tags.ts'
+import type { BulkOperationLog } from '../types/bulk.ts'
+import type { CrawlEvent, CrawlFailure, CrawlLog, CrawlLogDetail } from '../types/crawl.ts'
+import type { LinkCheckLog } from '../types/linkCheck.ts'
+import type { CrawlRunStats, WallpaperStats } from '../types/stats.ts'
+import type { TagAlias, TagStat, TagTranslationStat } from '../types/tag.ts'
+import type { Wallpaper } from '../types/wallpaper.ts'
+import {
+  adminRateLimiter,
+  ApiError,
+  validateAdminWallpaperQuery,
+  validateBulkRequest,
+  validateCrawlFailureQuery,
+  validateCrawlLogId,
+  validateCrawlRequest,
+  validateEnrichRequest,
+  validateLinkCheckRequest,
+  validatePagination,
+  validateRetryFailedRequest,
+  validateStatsDays,
+  validateTagAliasUpdate,
+  validateTagNormalizeRequest,
+  validateTagParam,
+  validateTagTranslationQuery,
+  validateTagTranslationUpdate,
+  validateWallpaperId,
+  validateWallpaperUpdate,
+} from '../utils/validation.ts'
 
 const router = new Hono()
 const crawler = new CrawlerService()
+const linkChecker = new LinkCheckerService()
+const tagDictionary = new TagDictionaryService()
+const tagAliases = new TagAliasService()
+const tagNormalizer = new TagNormalizerService()
+const wallpaperAdmin = new WallpaperAdminService()
+const wallpaperBulk = new WallpaperBulkService()
+const suggestions = new SuggestionService()
+
+/**
+ * 后台刷新搜索建议的标签快照 (爬取、规范化、批量操作改变标签或上下线后调用,失败只记录日志)
+ */
+function refreshSuggestions() {
+  suggestions
+    .refreshTags()
+    .then(() => {
+      console.log('✅ 搜索建议标签已刷新')
+    })
+    .catch((error) => {
+      console.error('❌ 刷新搜索建议标签失败:', error)
+    })
+}
+
+// 手动触发的爬取 / 补全任务结束后刷新搜索建议
+crawler.subscribe((event) => {
+  if (event.type === 'finished') refreshSuggestions()
+})
 
 /**
  * 认证中间件
@@ -22,8 +92,7 @@ router.use('*', async (c, next) => {
   }
 
   // 速率限制
-  const ip = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'admin'
-  if (!adminRateLimiter.check(`admin:${ip}`)) {
+  if (!adminRateLimiter.check(`admin:${getClientIp(c)}`)) {
     throw new ApiError(429, '请求过于频繁,请稍后再试', 'RATE_LIMIT_EXCEEDED')
   }
 
@@ -41,11 +110,20 @@ router.post(
       throw new ApiError(409, '已有爬取任务正在运行,请等待完成', 'CRAWL_IN_PROGRESS')
     }
 
-    console.log('📥 收到手动爬取请求')
+    // 请求体可选,默认增量爬取 moewalls
+    const { mode, source, limit } = validateCrawlRequest(await c.req.json().catch(() => ({})))
+    if (!getSource(source)) {
+      throw new ApiError(400, `未知的壁纸来源: ${source}`, 'UNKNOWN_SOURCE')
+    }
+
+    console.log(`📥 收到手动爬取请求 (来源: ${source}, 模式: ${mode})`)
 
-    // 异步执行爬取任务
-    crawler
-      .crawl()
+    // 异步执行爬取任务 (refresh 重新抓取已入库壁纸)
+    const task = mode === 'refresh'
+      ? crawler.refresh({ source, limit })
+      : crawler.crawl(mode, source)
+
+    task
       .then((result) => {
         console.log('✅ 爬取任务完成:', result)
       })
@@ -56,6 +134,8 @@ router.post(
     return c.json({
       success: true,
       message: '爬取任务已启动',
+      mode,
+      source,
     })
   }),
 )
@@ -79,6 +159,246 @@ router.post(
   }),
 )
 
+/**
+ * 重试失败的 URL
+ * 以 retry 模式创建新的爬取任务,仅处理未解决的失败记录
+ */
+router.post(
+  '/crawl/retry-failed',
+  asyncHandler(async (c) => {
+    const status = crawler.getStatus()
+    if (status.isRunning) {
+      throw new ApiError(409, '已有爬取任务正在运行,请等待完成', 'CRAWL_IN_PROGRESS')
+    }
+
+    const { source, logId, limit } = validateRetryFailedRequest(
+      await c.req.json().catch(() => ({})),
+    )
+    if (!getSource(source)) {
+      throw new ApiError(400, `未知的壁纸来源: ${source}`, 'UNKNOWN_SOURCE')
+    }
+
+    let query = supabaseAdmin
+      .from('crawl_failures')
+      .select('id', { count: 'exact', head: true })
+      .eq('source', source)
+      .is('resolved_at', null)
+
+    if (logId) {
+      query = query.eq('crawl_log_id', logId)
+    }
+
+    const { count, error } = await query
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    const total = Math.min(count || 0, limit)
+    if (total === 0) {
+      return c.json({
+        success: true,
+        message: '没有需要重试的失败记录',
+        source,
+        count: 0,
+      })
+    }
+
+    console.log(`📥 收到失败重试请求 (来源: ${source}, 数量: ${total})`)
+
+    // 异步执行重试任务
+    crawler
+      .retryFailed({ source, logId, limit })
+      .then((result) => {
+        console.log('✅ 失败重试任务完成:', result)
+      })
+      .catch((error) => {
+        console.error('❌ 失败重试任务失败:', error)
+      })
+
+    return c.json({
+      success: true,
+      message: '失败重试任务已启动',
+      source,
+      count: total,
+    })
+  }),
+)
+
+/**
+ * 恢复被终止或中断的爬取任务
+ * 可恢复: 已终止 (aborted) / 失败 / 未正常结束 (进程崩溃导致 completed_at 为空)
+ */
+router.post(
+  '/crawl/:id/resume',
+  asyncHandler(async (c) => {
+    const status = crawler.getStatus()
+    if (status.isRunning) {
+      throw new ApiError(409, '已有爬取任务正在运行,请等待完成', 'CRAWL_IN_PROGRESS')
+    }
+
+    const id = validateCrawlLogId(c.req.param('id'))
+
+    const { data, error } = await supabaseAdmin
+      .from('crawl_logs')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(404, '爬取记录不存在', 'NOT_FOUND')
+      }
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    const log = data as CrawlLog
+    if (log.mode === 'enrich') {
+      throw new ApiError(409, 'AI 内容补全任务无需恢复,请重新发起', 'NOT_RESUMABLE')
+    }
+
+    if (!log.aborted && log.status !== 'failed' && log.completed_at !== null) {
+      throw new ApiError(409, '该爬取任务已正常完成,无需恢复', 'NOT_RESUMABLE')
+    }
+
+    if (!getSource(log.source)) {
+      throw new ApiError(400, `未知的壁纸来源: ${log.source}`, 'UNKNOWN_SOURCE')
+    }
+
+    console.log(`📥 收到恢复爬取请求 (任务: ${log.id})`)
+
+    // 异步执行爬取任务
+    crawler
+      .resume(log)
+      .then((result) => {
+        console.log('✅ 恢复的爬取任务完成:', result)
+      })
+      .catch((error) => {
+        console.error('❌ 恢复的爬取任务失败:', error)
+      })
+
+    return c.json({
+      success: true,
+      message: '爬取任务已恢复',
+      id: log.id,
+      mode: log.mode,
+      source: log.source,
+    })
+  }),
+)
+
+/**
+ * AI 内容补全
+ * 为缺少中文翻译或使用降级描述的壁纸重新生成 AI 内容,进度与爬取任务共用 (/crawl/status 与 SSE)
+ * dry_run=true 时只返回待补全数量和示例 ID;include_outdated=true 时包含提示词版本过期的壁纸
+ */
+router.post(
+  '/enrich',
+  asyncHandler(async (c) => {
+    const { dryRun, includeOutdated, limit } = validateEnrichRequest(
+      await c.req.json().catch(() => ({})),
+    )
+    const promptVersion = includeOutdated ? PROMPT_VERSION : null
+
+    if (dryRun) {
+      const locales = getTargetLocales()
+      const [candidatesResult, translationsResult] = await Promise.all([
+        supabaseAdmin
+          .rpc('enrichment_candidates', { p_prompt_version: promptVersion }, { count: 'exact' })
+          .select('id')
+          .limit(10),
+        supabaseAdmin
+          .rpc('translation_candidates', {
+            p_locales: locales,
+            p_prompt_version: includeOutdated ? TRANSLATION_PROMPT_VERSION : null,
+          }, { count: 'exact', head: true }),
+      ])
+
+      const { data, error, count } = candidatesResult
+      if (error || translationsResult.error) {
+        console.error('数据库查询错误:', error || translationsResult.error)
+        throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+      }
+
+      const translationTotal = locales.length > 0 ? translationsResult.count || 0 : 0
+
+      return c.json({
+        success: true,
+        dry_run: true,
+        data: {
+          total: count || 0,
+          count: Math.min(count || 0, limit),
+          sample_ids: ((data || []) as { id: string }[]).map((row) => row.id),
+          translations: {
+            locales,
+            total: translationTotal,
+            count: Math.min(translationTotal, Math.max(limit - (count || 0), 0)),
+          },
+        },
+      })
+    }
+
+    if (crawler.getStatus().isRunning) {
+      throw new ApiError(409, '已有爬取任务正在运行,请等待完成', 'CRAWL_IN_PROGRESS')
+    }
+
+    if (!crawler.isAiEnabled()) {
+      throw new ApiError(400, '未配置 AI 服务,无法补全', 'AI_NOT_CONFIGURED')
+    }
+
+    console.log(`📥 收到 AI 内容补全请求 (数量: ${limit})`)
+
+    // 异步执行补全任务
+    crawler
+      .enrich({ limit, includeOutdated })
+      .then((result) => {
+        console.log('✅ AI 内容补全完成:', result)
+      })
+      .catch((error) => {
+        console.error('❌ AI 内容补全失败:', error)
+      })
+
+    return c.json({
+      success: true,
+      message: 'AI 内容补全任务已启动',
+      limit,
+    })
+  }),
+)
+
+/**
+ * 实时爬取事件流 (SSE)
+ * 事件: progress (进度), wallpaper (单个壁纸结果), finished (任务结束), ping (心跳)
+ * 注意: 浏览器原生 EventSource 无法携带 X-API-Key 请求头,需使用基于 fetch 的 SSE 客户端
+ */
+router.get(
+  '/crawl/events',
+  asyncHandler(async (c) => {
+    return streamSSE(c, async (stream) => {
+      const send = (event: CrawlEvent) => {
+        stream.writeSSE({ event: event.type, data: JSON.stringify(event.data) }).catch(() => {})
+      }
+
+      const unsubscribe = crawler.subscribe(send)
+      stream.onAbort(unsubscribe)
+
+      // 连接建立后立即推送当前进度
+      send({ type: 'progress', data: crawler.getStatus() })
+
+      // 心跳保活,直到客户端断开
+      while (!stream.aborted) {
+        await stream.sleep(15000)
+        if (!stream.aborted) {
+          await stream.writeSSE({ event: 'ping', data: '' })
+        }
+      }
+
+      unsubscribe()
+    })
+  }),
+)
+
 /**
  * 查询爬取任务状态
  */
@@ -94,4 +414,839 @@ router.get(
   }),
 )
 
+/**
+ * 计算爬取日志详情 (运行时长等派生字段)
+ */
+function toCrawlLogDetail(log: CrawlLog): CrawlLogDetail {
+  const durationMs = log.completed_at
+    ? new Date(log.completed_at).getTime() - new Date(log.started_at).getTime()
+    : null
+
+  return {
+    ...log,
+    duration_ms: durationMs,
+    is_finished: log.completed_at !== null,
+  }
+}
+
+/**
+ * 查询爬取历史
+ */
+router.get(
+  '/crawl/logs',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit')) || 10
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const offset = (page - 1) * limit
+
+    const { data, error, count } = await supabaseAdmin
+      .from('crawl_logs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: (data as CrawlLog[]).map(toCrawlLogDetail),
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 查询单次爬取详情
+ */
+router.get(
+  '/crawl/logs/:id',
+  asyncHandler(async (c) => {
+    const id = validateCrawlLogId(c.req.param('id'))
+
+    const { data, error } = await supabaseAdmin
+      .from('crawl_logs')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(404, '爬取记录不存在', 'NOT_FOUND')
+      }
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: toCrawlLogDetail(data as CrawlLog),
+    })
+  }),
+)
+
+/**
+ * 查询 URL 失败记录
+ * 默认仅返回未解决的记录,include_resolved=true 时包含已重试成功的记录
+ */
+router.get(
+  '/crawl/failures',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit'))
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const { logId, source, stage, includeResolved } = validateCrawlFailureQuery(c.req.query())
+    const offset = (page - 1) * limit
+
+    let query = supabaseAdmin
+      .from('crawl_failures')
+      .select('*', { count: 'exact' })
+
+    if (logId) query = query.eq('crawl_log_id', logId)
+    if (source) query = query.eq('source', source)
+    if (stage) query = query.eq('stage', stage)
+    if (!includeResolved) query = query.is('resolved_at', null)
+
+    const { data, error, count } = await query
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as CrawlFailure[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 手动触发媒体链接检查
+ */
+router.post(
+  '/link-check',
+  asyncHandler(async (c) => {
+    if (linkChecker.getStatus().isRunning) {
+      throw new ApiError(409, '已有链接检查任务正在运行,请等待完成', 'LINK_CHECK_IN_PROGRESS')
+    }
+
+    const { limit } = validateLinkCheckRequest(await c.req.json().catch(() => ({})))
+
+    console.log(`📥 收到链接检查请求 (数量: ${limit})`)
+
+    // 异步执行检查任务
+    linkChecker
+      .check({ limit })
+      .then((result) => {
+        console.log('✅ 链接检查任务完成:', result)
+      })
+      .catch((error) => {
+        console.error('❌ 链接检查任务失败:', error)
+      })
+
+    return c.json({
+      success: true,
+      message: '链接检查任务已启动',
+      limit,
+    })
+  }),
+)
+
+/**
+ * 终止正在运行的链接检查任务
+ */
+router.post(
+  '/link-check/abort',
+  asyncHandler(async (c) => {
+    const aborted = linkChecker.abort()
+
+    if (!aborted) {
+      throw new ApiError(400, '没有正在运行的链接检查任务', 'NO_RUNNING_TASK')
+    }
+
+    return c.json({
+      success: true,
+      message: '已发送终止信号,任务将在当前批次完成后停止',
+    })
+  }),
+)
+
+/**
+ * 查询链接检查进度
+ */
+router.get(
+  '/link-check/status',
+  asyncHandler(async (c) => {
+    return c.json({
+      success: true,
+      data: linkChecker.getStatus(),
+    })
+  }),
+)
+
+/**
+ * 查询链接检查历史 (含变更明细)
+ */
+router.get(
+  '/link-check/logs',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit')) || 10
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const offset = (page - 1) * limit
+
+    const { data, error, count } = await supabaseAdmin
+      .from('link_check_logs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as LinkCheckLog[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 查询标签翻译词典 (含使用次数)
+ */
+router.get(
+  '/tag-translations',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit')) || 50
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const { search, origin, sort } = validateTagTranslationQuery(c.req.query())
+    const offset = (page - 1) * limit
+
+    let query = supabaseAdmin
+      .from('tag_translation_stats')
+      .select('*', { count: 'exact' })
+
+    // 前缀搜索 (同时匹配原文和中文)
+    if (search) query = query.or(`tag.ilike.${search}*,label_zh.ilike.${search}*`)
+    if (origin) query = query.eq('origin', origin)
+
+    if (sort === 'count') {
+      query = query.order('count', { ascending: false }).order('tag', { ascending: true })
+    } else if (sort === 'updated') {
+      query = query.order('updated_at', { ascending: false })
+    } else {
+      query = query.order('tag', { ascending: true })
+    }
+
+    const { data, error, count } = await query.range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as TagTranslationStat[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 修正标签翻译 (标记为人工修正,AI 不再覆盖)
+ * propagate=true (默认) 时同时回写到包含该标签的壁纸
+ */
+router.put(
+  '/tag-translations/:tag',
+  asyncHandler(async (c) => {
+    const tag = validateTagParam(c.req.param('tag'))
+    const { labelZh, propagate } = validateTagTranslationUpdate(
+      await c.req.json().catch(() => ({})),
+    )
+
+    const translation = await tagDictionary.correct(tag, labelZh)
+    const updatedCount = propagate ? await tagDictionary.propagate(tag) : 0
+
+    console.log(`🏷️ 标签翻译已修正: ${tag} → ${labelZh} (回写 ${updatedCount} 个壁纸)`)
+
+    return c.json({
+      success: true,
+      data: translation,
+      updated_count: updatedCount,
+    })
+  }),
+)
+
+/**
+ * 将标签的词典翻译回写到壁纸
+ */
+router.post(
+  '/tag-translations/:tag/propagate',
+  asyncHandler(async (c) => {
+    const tag = validateTagParam(c.req.param('tag'))
+    const updatedCount = await tagDictionary.propagate(tag)
+
+    return c.json({
+      success: true,
+      updated_count: updatedCount,
+    })
+  }),
+)
+
+/**
+ * 删除标签翻译 (之后爬取时由 AI 重新翻译,已有壁纸不变)
+ */
+router.delete(
+  '/tag-translations/:tag',
+  asyncHandler(async (c) => {
+    const tag = validateTagParam(c.req.param('tag'))
+
+    if (!(await tagDictionary.remove(tag))) {
+      throw new ApiError(404, '标签翻译不存在', 'NOT_FOUND')
+    }
+
+    return c.json({
+      success: true,
+      message: '标签翻译已删除',
+    })
+  }),
+)
+
+/**
+ * 查询标签别名
+ */
+router.get(
+  '/tag-aliases',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit')) || 50
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const { search } = validateTagTranslationQuery({ search: c.req.query('search') })
+    const offset = (page - 1) * limit
+
+    let query = supabaseAdmin
+      .from('tag_aliases')
+      .select('*', { count: 'exact' })
+
+    // 前缀搜索 (同时匹配别名和规范标签)
+    if (search) query = query.or(`alias.ilike.${search}*,tag.ilike.${search}*`)
+
+    const { data, error, count } = await query
+      .order('tag', { ascending: true })
+      .order('alias', { ascending: true })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as TagAlias[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 设置标签别名 (别名先规范化;目标标签保留词形,目标为别名时解析到其规范标签)
+ * 已有壁纸需执行 /tags/normalize 后才会改写
+ */
+router.put(
+  '/tag-aliases/:alias',
+  asyncHandler(async (c) => {
+    const alias = normalizeTag(validateTagParam(c.req.param('alias')))
+    const { tag } = validateTagAliasUpdate(await c.req.json().catch(() => ({})))
+    const canonical = await tagAliases.resolveTarget(tag)
+
+    if (!alias || !canonical || alias === canonical) {
+      throw new ApiError(400, '别名与规范标签不能相同', 'INVALID_ALIAS')
+    }
+
+    const data = await tagAliases.setAlias(alias, canonical)
+    console.log(`🏷️ 标签别名已设置: ${alias} → ${canonical}`)
+
+    return c.json({
+      success: true,
+      data,
+    })
+  }),
+)
+
+/**
+ * 删除标签别名
+ */
+router.delete(
+  '/tag-aliases/:alias',
+  asyncHandler(async (c) => {
+    const alias = normalizeTag(validateTagParam(c.req.param('alias')))
+
+    if (!(await tagAliases.removeAlias(alias))) {
+      throw new ApiError(404, '标签别名不存在', 'NOT_FOUND')
+    }
+
+    return c.json({
+      success: true,
+      message: '标签别名已删除',
+    })
+  }),
+)
+
+/**
+ * 规范化已有壁纸的标签 (应用当前的别名)
+ * dry_run=true 时同步返回变更统计和示例,否则异步执行
+ */
+router.post(
+  '/tags/normalize',
+  asyncHandler(async (c) => {
+    if (tagNormalizer.getStatus().isRunning) {
+      throw new ApiError(409, '已有标签规范化任务正在运行,请等待完成', 'TAG_NORMALIZE_IN_PROGRESS')
+    }
+
+    const { dryRun } = validateTagNormalizeRequest(await c.req.json().catch(() => ({})))
+
+    if (dryRun) {
+      return c.json({
+        success: true,
+        data: await tagNormalizer.normalize({ dryRun }),
+      })
+    }
+
+    console.log('📥 收到标签规范化请求')
+
+    // 异步执行规范化任务
+    tagNormalizer
+      .normalize({ dryRun })
+      .then((result) => {
+        console.log('✅ 标签规范化任务完成:', { ...result, samples: result.samples.length })
+        refreshSuggestions()
+      })
+      .catch((error) => {
+        console.error('❌ 标签规范化任务失败:', error)
+      })
+
+    return c.json({
+      success: true,
+      message: '标签规范化任务已启动',
+    })
+  }),
+)
+
+/**
+ * 查询标签规范化进度
+ */
+router.get(
+  '/tags/normalize/status',
+  asyncHandler(async (c) => {
+    return c.json({
+      success: true,
+      data: tagNormalizer.getStatus(),
+    })
+  }),
+)
+
+/**
+ * 立即刷新搜索建议的标签快照 (同步执行)
+ */
+router.post(
+  '/search/suggestions/refresh',
+  asyncHandler(async (c) => {
+    await suggestions.refreshTags()
+
+    return c.json({
+      success: true,
+      message: '搜索建议标签已刷新',
+    })
+  }),
+)
+
+/**
+ * 查询壁纸 (含 inactive 壁纸)
+ */
+router.get(
+  '/wallpapers',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit')) || 50
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const { status, source, search, lockedOnly } = validateAdminWallpaperQuery(c.req.query())
+    const offset = (page - 1) * limit
+
+    let query = supabaseAdmin
+      .from('wallpapers')
+      .select('*', { count: 'exact' })
+
+    if (status !== 'all') query = query.eq('status', status)
+    if (source) query = query.eq('source', source)
+    // 名称 / 中文名称 / 来源 ID 包含搜索词
+    if (search) {
+      query = query.or(
+        `name.ilike.*${search}*,name_zh.ilike.*${search}*,source_id.ilike.*${search}*`,
+      )
+    }
+    if (lockedOnly) query = query.neq('locked_fields', '{}')
+
+    const { data, error, count } = await query
+      .order('crawled_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as Wallpaper[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 按条件批量操作壁纸
+ * dry_run=true 时只返回匹配数量和示例 ID;执行时写入审计日志 (wallpaper_bulk_operations)
+ * 注意: 必须注册在 /wallpapers/:id 之前
+ */
+router.post(
+  '/wallpapers/bulk',
+  asyncHandler(async (c) => {
+    const { filter, action, tag: rawTag, dryRun } = validateBulkRequest(
+      await c.req.json().catch(() => ({})),
+    )
+
+    // 标签规范化并应用别名
+    const tag = rawTag ? await tagAliases.resolve(rawTag) : undefined
+    if (rawTag && !tag) {
+      throw new ApiError(400, '无效的标签', 'INVALID_PARAMS')
+    }
+
+    const preview = await wallpaperBulk.preview(filter)
+
+    if (dryRun) {
+      return c.json({
+        success: true,
+        dry_run: true,
+        data: { action, tag: tag ?? null, ...preview },
+      })
+    }
+
+    const maxSize = action === 're_enrich' ? MAX_BULK_ENRICH_SIZE : MAX_BULK_SIZE
+    if (preview.matched_count > maxSize) {
+      throw new ApiError(
+        400,
+        `匹配的壁纸过多 (${preview.matched_count}),单次最多 ${maxSize} 个,请缩小筛选范围`,
+        'BULK_LIMIT_EXCEEDED',
+      )
+    }
+
+    if (action !== 're_enrich') {
+      const result = await wallpaperBulk.execute(action, filter, tag)
+      console.log(
+        `📦 批量操作完成: ${action} (匹配 ${result.matched_count}, 变更 ${result.affected_count})`,
+      )
+      if (result.affected_count > 0) refreshSuggestions()
+
+      return c.json({
+        success: true,
+        data: result,
+      })
+    }
+
+    // 重新补全由爬虫补全任务异步执行
+    if (crawler.getStatus().isRunning) {
+      throw new ApiError(409, '已有爬取任务正在运行,请等待完成', 'CRAWL_IN_PROGRESS')
+    }
+
+    if (!crawler.isAiEnabled()) {
+      throw new ApiError(400, '未配置 AI 服务,无法补全', 'AI_NOT_CONFIGURED')
+    }
+
+    // 先记录为 pending,补全任务结束后回写结果和补全任务日志 ID
+    const ids = await wallpaperBulk.matchIds(filter, maxSize)
+    const operationId = await wallpaperBulk.record({
+      action,
+      status: 'pending',
+      filter,
+      matched_count: ids.length,
+      affected_count: 0,
+      wallpaper_ids: ids,
+    })
+
+    console.log(`📥 收到批量重新补全请求 (数量: ${ids.length})`)
+
+    // 补全任务未能启动 (如期间已有其他任务开始运行) 时,进度中的日志 ID 属于之前的任务
+    const previousLogId = crawler.getStatus().logId
+
+    crawler
+      .enrich({ limit: ids.length, includeOutdated: false, ids })
+      .then(async (result) => {
+        console.log('✅ 批量重新补全完成:', result)
+        if (!operationId) return
+        await wallpaperBulk.complete(operationId, {
+          status: 'success',
+          affected_count: result.updated_count,
+          crawl_log_id: crawler.getStatus().logId,
+          error_message: result.failed_count > 0
+            ? `${result.failed_count} 个壁纸补全失败`
+            : undefined,
+        })
+      })
+      .catch(async (error) => {
+        console.error('❌ 批量重新补全失败:', error)
+        if (!operationId) return
+        const { logId } = crawler.getStatus()
+        await wallpaperBulk.complete(operationId, {
+          status: 'failed',
+          affected_count: 0,
+          crawl_log_id: logId !== previousLogId ? logId : null,
+          error_message: error instanceof Error ? error.message : String(error),
+        })
+      })
+
+    return c.json({
+      success: true,
+      message: 'AI 内容补全任务已启动',
+      data: { operation_id: operationId, matched_count: ids.length, affected_count: 0 },
+    })
+  }),
+)
+
+/**
+ * 查询批量操作审计日志
+ */
+router.get(
+  '/wallpapers/bulk/logs',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit'))
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+    const offset = (page - 1) * limit
+
+    const { data, error, count } = await supabaseAdmin
+      .from('wallpaper_bulk_operations')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as BulkOperationLog[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+/**
+ * 查询壁纸详情 (含 inactive 壁纸和多语言翻译)
+ */
+router.get(
+  '/wallpapers/:id',
+  asyncHandler(async (c) => {
+    const id = validateWallpaperId(c.req.param('id'))
+    const wallpaper = await wallpaperAdmin.get(id)
+
+    if (!wallpaper) {
+      throw new ApiError(404, '壁纸不存在', 'NOT_FOUND')
+    }
+
+    return c.json({
+      success: true,
+      data: wallpaper,
+    })
+  }),
+)
+
+/**
+ * 修改壁纸 (修改的字段默认锁定,之后的爬取 / 刷新 / 补全不再覆盖)
+ */
+router.patch(
+  '/wallpapers/:id',
+  asyncHandler(async (c) => {
+    const id = validateWallpaperId(c.req.param('id'))
+    const { update, lock, lockedFields } = validateWallpaperUpdate(
+      await c.req.json().catch(() => ({})),
+    )
+
+    const wallpaper = await wallpaperAdmin.get(id)
+    if (!wallpaper) {
+      throw new ApiError(404, '壁纸不存在', 'NOT_FOUND')
+    }
+
+    // 只修改中文标签时须与现有标签一一对应
+    if (update.tags_zh && !update.tags && update.tags_zh.length !== wallpaper.tags.length) {
+      throw new ApiError(400, 'tags_zh 数量与标签数量不一致', 'TAGS_MISMATCH')
+    }
+
+    const data = await wallpaperAdmin.update(wallpaper, update, { lock, lockedFields })
+    console.log(
+      `✏️ 壁纸已修改: ${data.source_id} (${Object.keys(update).join(', ') || '锁定字段'})`,
+    )
+
+    return c.json({
+      success: true,
+      data,
+    })
+  }),
+)
+
+/**
+ * 删除壁纸 (来源仍存在时再次爬取会重新入库,隐藏壁纸请修改 status 为 inactive)
+ */
+router.delete(
+  '/wallpapers/:id',
+  asyncHandler(async (c) => {
+    const id = validateWallpaperId(c.req.param('id'))
+
+    if (!(await wallpaperAdmin.remove(id))) {
+      throw new ApiError(404, '壁纸不存在', 'NOT_FOUND')
+    }
+
+    return c.json({
+      success: true,
+      message: '壁纸已删除',
+    })
+  }),
+)
+
+/**
+ * 汇总最近爬取任务
+ */
+function summarizeCrawlRuns(
+  runs: Pick<CrawlLog, 'status'>[],
+  lastSuccessAt: string | null,
+): CrawlRunStats {
+  const success = runs.filter((run) => run.status === 'success').length
+  const partial = runs.filter((run) => run.status === 'partial').length
+  const failed = runs.filter((run) => run.status === 'failed').length
+
+  return {
+    last_success_at: lastSuccessAt,
+    recent_runs: runs.length,
+    success,
+    partial,
+    failed,
+    success_ratio: runs.length > 0 ? Number((success / runs.length).toFixed(4)) : 0,
+  }
+}
+
+/**
+ * 系统统计
+ */
+router.get(
+  '/stats',
+  asyncHandler(async (c) => {
+    const days = validateStatsDays(c.req.query('days'))
+
+    const [wallpaperResult, tagsResult, runsResult, lastSuccessResult] = await Promise.all([
+      supabaseAdmin.rpc('admin_wallpaper_stats', { p_days: days }),
+      supabaseAdmin
+        .from('tag_stats')
+        .select('*')
+        .order('count', { ascending: false })
+        .limit(10),
+      supabaseAdmin
+        .from('crawl_logs')
+        .select('status')
+        .not('completed_at', 'is', null)
+        .order('started_at', { ascending: false })
+        .limit(20),
+      supabaseAdmin
+        .from('crawl_logs')
+        .select('completed_at')
+        .eq('status', 'success')
+        .not('completed_at', 'is', null)
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ])
+
+    const error = wallpaperResult.error || tagsResult.error || runsResult.error ||
+      lastSuccessResult.error
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        wallpapers: wallpaperResult.data as WallpaperStats,
+        top_tags: tagsResult.data as TagStat[],
+        crawl: summarizeCrawlRuns(
+          runsResult.data as Pick<CrawlLog, 'status'>[],
+          lastSuccessResult.data?.completed_at ?? null,
+        ),
+        is_crawling: crawler.getStatus().isRunning,
+      },
+    })
+  }),
+)
+
 export default router
@@ -0,0 +1,32 @@
+import { assertEquals } from '@std/assert'
+
+// 只创建客户端,测试中不发起请求 (需在导入 main.ts 之前设置)
+Deno.env.set('SUPABASE_URL', 'http://localhost:54321')
+Deno.env.set('SUPABASE_ANON_KEY', 'test-anon-key')
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key')
+Deno.env.set('ADMIN_API_KEY', 'test-admin-key')
+
+await import('../../main.ts')
+const { default: router } = await import('./admin.ts')
+const { SuggestionService } = await import('../services/suggestions.ts')
+
+Deno.test('POST /search/suggestions/refresh 刷新搜索建议标签', async () => {
+  let refreshed = 0
+  const original = SuggestionService.prototype.refreshTags
+  SuggestionService.prototype.refreshTags = async () => {
+    refreshed++
+  }
+
+  try {
+    const res = await router.request('/search/suggestions/refresh', {
+      method: 'POST',
+      headers: { 'X-API-Key': 'test-admin-key' },
+    })
+
+    assertEquals(res.status, 200)
+    assertEquals((await res.json()).success, true)
+    assertEquals(refreshed, 1)
+  } finally {
+    SuggestionService.prototype.refreshTags = original
+  }
+})
@@ -1,11 +1,15 @@
 import { Hono } from 'hono'
 import wallpapersRouter from './wallpapers.ts'
+import tagsRouter from './tags.ts'
+import searchRouter from './search.ts'
 import adminRouter from './admin.ts'
 
 const router = new Hono()
 
 // 挂载各个模块的路由
 router.route('/wallpapers', wallpapersRouter)
+router.route('/tags', tagsRouter)
+router.route('/search', searchRouter)
 router.route('/admin', adminRouter)
 
 export default router
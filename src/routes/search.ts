@@ -0,0 +1,32 @@
+import { Hono } from 'hono'
+import { SuggestionService } from '../services/suggestions.ts'
+import { validateSuggestQuery } from '../utils/validation.ts'
+import { asyncHandler } from '../middleware/errorHandler.ts'
+import { rateLimit } from '../middleware/rateLimit.ts'
+
+const router = new Hono()
+const suggestions = new SuggestionService()
+
+// 速率限制中间件
+router.use('*', rateLimit)
+
+/**
+ * 搜索建议 (壁纸名称、原文标签、中文标签)
+ * 结果变化缓慢,服务端缓存 5 分钟,并允许浏览器 / CDN 缓存
+ */
+router.get(
+  '/suggest',
+  asyncHandler(async (c) => {
+    const { query, limit } = validateSuggestQuery(c.req.query())
+    const items = await suggestions.suggest(query, limit)
+
+    c.header('Cache-Control', 'public, max-age=300, stale-while-revalidate=600')
+
+    return c.json({
+      success: true,
+      data: { query, items },
+    })
+  }),
+)
+
+export default router
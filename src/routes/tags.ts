@@ -0,0 +1,60 @@
+import { Hono } from 'hono'
+import { supabase } from '../../main.ts'
+import type { TagStat } from '../types/tag.ts'
+import { ApiError, validateTagQuery } from '../utils/validation.ts'
+import { asyncHandler } from '../middleware/errorHandler.ts'
+import { rateLimit } from '../middleware/rateLimit.ts'
+
+const router = new Hono()
+
+// 速率限制中间件
+router.use('*', rateLimit)
+
+/**
+ * 获取标签目录 (含中文翻译和使用次数)
+ */
+router.get(
+  '/',
+  asyncHandler(async (c) => {
+    const { page, limit, search, sort } = validateTagQuery(c.req.query())
+    const offset = (page - 1) * limit
+
+    let dbQuery = supabase
+      .from('tag_stats')
+      .select('*', { count: 'exact' })
+
+    // 前缀搜索 (同时匹配原文和中文)
+    if (search) {
+      dbQuery = dbQuery.or(`name.ilike.${search}*,name_zh.ilike.${search}*`)
+    }
+
+    // 排序
+    if (sort === 'count') {
+      dbQuery = dbQuery.order('count', { ascending: false }).order('name', { ascending: true })
+    } else {
+      dbQuery = dbQuery.order('name', { ascending: true })
+    }
+
+    const { data, error, count } = await dbQuery.range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items: data as TagStat[],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+      },
+    })
+  }),
+)
+
+export default router
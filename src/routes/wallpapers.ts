@@ -1,26 +1,184 @@
 import { Hono } from 'hono'
+import type { Context } from 'hono'
 import { supabase } from '../../main.ts'
-import type { Wallpaper } from '../types/wallpaper.ts'
+import { LocalizationService } from '../services/localization.ts'
+import { TagAliasService } from '../services/tagAliases.ts'
+import { TrackingService } from '../services/tracking.ts'
+import type {
+  SearchMode,
+  Wallpaper,
+  WallpaperFilters,
+  WallpaperHighlight,
+  WallpaperListItem,
+  WallpaperSort,
+} from '../types/wallpaper.ts'
 import {
   ApiError,
-  globalRateLimiter,
+  parseBooleanQuery,
   sanitizeSearchQuery,
+  validateLang,
   validatePagination,
+  validateSeed,
+  validateSort,
+  validateWallpaperFilters,
+  validateWallpaperId,
 } from '../utils/validation.ts'
+import { resolveLocale } from '../utils/locale.ts'
+import { toArrayLiteral } from '../utils/postgrest.ts'
 import { asyncHandler } from '../middleware/errorHandler.ts'
+import { getClientIp, rateLimit } from '../middleware/rateLimit.ts'
 
 const router = new Hono()
+const tracking = new TrackingService()
+const tagAliases = new TagAliasService()
+const localization = new LocalizationService()
+
+/**
+ * 获取请求语言: lang 参数优先,其次 Accept-Language,均未指定时返回 null (不返回本地化内容)
+ */
+function getRequestLocale(c: Context): string | null {
+  return resolveLocale(validateLang(c.req.query('lang')), c.req.header('accept-language'))
+}
 
 // 速率限制中间件
-router.use('*', async (c, next) => {
-  const ip = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown'
+router.use('*', rateLimit)
+
+/**
+ * 可过滤的查询构建器 (Supabase 查询链)
+ */
+interface FilterableQuery<Q> {
+  or(filters: string): Q
+  eq(column: string, value: unknown): Q
+  gte(column: string, value: unknown): Q
+  contains(column: string, value: readonly unknown[]): Q
+}
+
+/**
+ * 展开标签过滤条件中的别名
+ */
+async function expandTagFilters(filters: WallpaperFilters): Promise<WallpaperFilters> {
+  if (!filters.tags?.length) return filters
+  return { ...filters, tagVariants: await tagAliases.expand(filters.tags) }
+}
+
+/**
+ * 应用标签 / 分类 / 分辨率过滤条件
+ */
+function applyFilters<Q extends FilterableQuery<Q>>(query: Q, filters: WallpaperFilters): Q {
+  let filtered = query
+
+  // 标签同时匹配原文和中文翻译 (tags / tags_zh 均有 GIN 索引)
+  // 原文标签匹配规范标签及其任一别名,中文标签按输入匹配
+  if (filters.tags?.length) {
+    const variants = filters.tagVariants ?? filters.tags.map((tag) => [tag])
+    if (filters.tagsMode === 'any') {
+      const list = toArrayLiteral(variants.flat())
+      filtered = filtered.or(`tags.ov.${list},tags_zh.ov.${toArrayLiteral(filters.tags)}`)
+    } else {
+      filters.tags.forEach((tag, i) => {
+        filtered = filtered.or(
+          `tags.ov.${toArrayLiteral(variants[i])},tags_zh.cs.${toArrayLiteral([tag])}`,
+        )
+      })
+    }
+  }
+
+  if (filters.category) {
+    filtered = filtered.eq('category', filters.category)
+  }
+
+  if (filters.resolution) {
+    filtered = filtered.contains('resolutions', [filters.resolution])
+  }
+
+  if (filters.minResolution) {
+    filtered = filtered
+      .gte('max_width', filters.minResolution.width)
+      .gte('max_height', filters.minResolution.height)
+  }
+
+  return filtered
+}
+
+/**
+ * 构建列表查询
+ * - 无搜索词: 直接查询 wallpapers 表
+ * - fulltext: relevance 排序时通过 search_wallpapers 函数按 ts_rank 排序,其余排序直接过滤 search_vector
+ * - fuzzy: 通过 fuzzy_search_wallpapers 函数按名称相似度排序 (trending 在此模式下沿用相似度排序)
+ * - trending: 通过 trending_wallpapers 函数按时间衰减热度排序
+ */
+function buildListQuery(
+  search: string,
+  sort: WallpaperSort,
+  filters: WallpaperFilters,
+  mode: SearchMode,
+) {
+  let dbQuery = search && mode === 'fuzzy'
+    ? supabase.rpc('fuzzy_search_wallpapers', { search_query: search }, { count: 'exact' })
+    : sort === 'trending'
+    ? supabase.rpc('trending_wallpapers', {}, { count: 'exact' })
+    : !search
+    ? supabase.from('wallpapers').select('*', { count: 'exact' })
+    : sort === 'relevance'
+    ? supabase.rpc('search_wallpapers', { search_query: search }, { count: 'exact' })
+    : supabase.from('wallpapers').select('*', { count: 'exact' })
+
+  dbQuery = dbQuery.eq('status', 'active')
+
+  // 全文搜索过滤 (search_wallpapers / fuzzy_search_wallpapers 已自带匹配条件)
+  if (search && mode === 'fulltext' && sort !== 'relevance') {
+    dbQuery = dbQuery.textSearch('search_vector', search, {
+      type: 'websearch',
+      config: 'simple',
+    })
+  }
+
+  // 标签 / 分类 / 分辨率过滤
+  dbQuery = applyFilters(dbQuery, filters)
+
+  // 排序 (relevance / trending 由函数排序)
+  if (sort === 'latest') {
+    dbQuery = dbQuery.order('crawled_at', { ascending: false })
+  } else if (sort === 'name') {
+    dbQuery = dbQuery.order('name', { ascending: true })
+  } else if (sort === 'popular') {
+    dbQuery = dbQuery
+      .order('download_count', { ascending: false })
+      .order('view_count', { ascending: false })
+  }
 
-  if (!globalRateLimiter.check(ip)) {
-    throw new ApiError(429, '请求过于频繁,请稍后再试', 'RATE_LIMIT_EXCEEDED')
+  return dbQuery
+}
+
+/**
+ * 为搜索结果附加高亮片段
+ */
+async function attachHighlights(
+  items: WallpaperListItem[],
+  search: string,
+): Promise<WallpaperListItem[]> {
+  const { data, error } = await supabase.rpc('search_wallpaper_headlines', {
+    search_query: search,
+    wallpaper_ids: items.map((item) => item.id),
+  })
+
+  // 高亮失败不影响主流程
+  if (error) {
+    console.error('生成高亮片段失败:', error)
+    return items
   }
 
-  await next()
-})
+  const headlines = new Map<string, WallpaperHighlight>()
+  for (const row of data || []) {
+    headlines.set(row.id, {
+      name: row.name_highlight,
+      name_zh: row.name_zh_highlight,
+      description: row.description_highlight,
+    })
+  }
+
+  return items.map((item) => ({ ...item, highlight: headlines.get(item.id) }))
+}
 
 /**
  * 获取壁纸列表
@@ -34,37 +192,110 @@ router.get(
     const { page, limit } = validatePagination(rawPage, rawLimit)
 
     const search = sanitizeSearchQuery(c.req.query('search'))
+    const sort = validateSort(c.req.query('sort'), search)
+    const filters = await expandTagFilters(validateWallpaperFilters(c.req.query()))
+
+    // 搜索词为标签别名时同时搜索规范标签 (模糊搜索按名称相似度,使用原始搜索词)
+    const fulltextSearch = search ? await tagAliases.expandSearch(search) : ''
+
+    const highlight = parseBooleanQuery(c.req.query('highlight'))
+    const locale = getRequestLocale(c)
+
+    const offset = (page - 1) * limit
+
+    // 全文搜索
+    let searchMode: SearchMode = 'fulltext'
+    let result = await buildListQuery(fulltextSearch, sort, filters, searchMode)
+      .range(offset, offset + limit - 1)
+
+    // 全文搜索无结果时回退到名称模糊搜索 (容忍拼写错误)
+    if (search && !result.error && !result.count) {
+      searchMode = 'fuzzy'
+      result = await buildListQuery(search, sort, filters, searchMode)
+        .range(offset, offset + limit - 1)
+    }
+
+    const { data, error, count } = result
+
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    let items = (data || []) as WallpaperListItem[]
+
+    // 搜索高亮 (模糊搜索没有词元命中,不生成高亮)
+    if (search && highlight && searchMode === 'fulltext' && items.length > 0) {
+      items = await attachHighlights(items, fulltextSearch)
+    }
+
+    if (locale) {
+      items = await localization.localize(items, locale)
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit),
+        },
+        ...(search ? { searchMode } : {}),
+      },
+    })
+  }),
+)
+
+/**
+ * 获取随机壁纸
+ * 相同 seed 返回固定顺序,客户端携带响应中的 seed 翻页即可避免重复
+ * 注意: 必须注册在 /:id 之前
+ */
+router.get(
+  '/random',
+  asyncHandler(async (c) => {
+    const rawPage = Number(c.req.query('page')) || 1
+    const rawLimit = Number(c.req.query('limit')) || 10
+    const { page, limit } = validatePagination(rawPage, rawLimit)
+
+    const search = sanitizeSearchQuery(c.req.query('search'))
+    const filters = await expandTagFilters(validateWallpaperFilters(c.req.query()))
+    const seed = validateSeed(c.req.query('seed'))
+    const locale = getRequestLocale(c)
 
     const offset = (page - 1) * limit
 
-    // 构建查询
     let dbQuery = supabase
-      .from('wallpapers')
-      .select('*', { count: 'exact' })
+      .rpc('random_wallpapers', { seed }, { count: 'exact' })
       .eq('status', 'active')
 
-    // 搜索过滤 (使用 search_vector 全文搜索)
     if (search) {
-      dbQuery = dbQuery.textSearch('search_vector', search, {
+      dbQuery = dbQuery.textSearch('search_vector', await tagAliases.expandSearch(search), {
         type: 'websearch',
         config: 'simple',
       })
     }
 
-    // 分页
-    dbQuery = dbQuery.range(offset, offset + limit - 1)
+    dbQuery = applyFilters(dbQuery, filters)
 
-    const { data, error, count } = await dbQuery
+    const { data, error, count } = await dbQuery.range(offset, offset + limit - 1)
 
     if (error) {
       console.error('数据库查询错误:', error)
       throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
     }
 
+    const wallpapers = (data || []) as Wallpaper[]
+    const items = locale ? await localization.localize(wallpapers, locale) : wallpapers
+
     return c.json({
       success: true,
       data: {
-        items: data as Wallpaper[],
+        items,
+        seed,
         pagination: {
           page,
           limit,
@@ -82,7 +313,8 @@ router.get(
 router.get(
   '/:id',
   asyncHandler(async (c) => {
-    const id = c.req.param('id')
+    const id = validateWallpaperId(c.req.param('id'))
+    const locale = getRequestLocale(c)
 
     const { data, error } = await supabase
       .from('wallpapers')
@@ -98,9 +330,93 @@ router.get(
       throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
     }
 
+    // 异步记录浏览量 (不阻塞响应)
+    tracking.recordView(data.id, getClientIp(c)).catch((error) => {
+      console.error('❌ 记录浏览失败:', error)
+    })
+
+    const wallpaper = data as Wallpaper
+
+    return c.json({
+      success: true,
+      data: locale ? (await localization.localize([wallpaper], locale))[0] : wallpaper,
+    })
+  }),
+)
+
+/**
+ * 获取相关壁纸 (按标签重合度、相同分类和名称相似度排序,不含壁纸本身)
+ */
+router.get(
+  '/:id/related',
+  asyncHandler(async (c) => {
+    const id = validateWallpaperId(c.req.param('id'))
+    const { limit } = validatePagination(1, Number(c.req.query('limit')) || 12)
+    const locale = getRequestLocale(c)
+
+    const [targetResult, relatedResult] = await Promise.all([
+      supabase
+        .from('wallpapers')
+        .select('id')
+        .eq('id', id)
+        .eq('status', 'active')
+        .maybeSingle(),
+      supabase.rpc('related_wallpapers', { p_id: id, p_limit: limit }),
+    ])
+
+    const error = targetResult.error || relatedResult.error
+    if (error) {
+      console.error('数据库查询错误:', error)
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    if (!targetResult.data) {
+      throw new ApiError(404, '壁纸不存在', 'NOT_FOUND')
+    }
+
+    const wallpapers = (relatedResult.data || []) as Wallpaper[]
+    const items = locale ? await localization.localize(wallpapers, locale) : wallpapers
+
+    return c.json({
+      success: true,
+      data: { items },
+    })
+  }),
+)
+
+/**
+ * 记录下载并返回下载地址
+ */
+router.post(
+  '/:id/download',
+  asyncHandler(async (c) => {
+    const id = validateWallpaperId(c.req.param('id'))
+
+    const { data, error } = await supabase
+      .from('wallpapers')
+      .select('id, video_url')
+      .eq('id', id)
+      .eq('status', 'active')
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(404, '壁纸不存在', 'NOT_FOUND')
+      }
+      throw new ApiError(500, '查询失败', 'DB_QUERY_ERROR')
+    }
+
+    // 异步记录下载量 (不阻塞响应)
+    tracking.recordDownload(data.id, getClientIp(c)).catch((error) => {
+      console.error('❌ 记录下载失败:', error)
+    })
+
     return c.json({
       success: true,
-      data: data as Wallpaper,
+      data: {
+        id: data.id,
+        video_url: data.video_url,
+      },
     })
   }),
 )
@@ -1,16 +1,27 @@
 import { cron, start, stop } from 'deno-cron'
 import { CrawlerService } from './services/crawler.ts'
+import { LinkCheckerService } from './services/linkChecker.ts'
+import { SuggestionService } from './services/suggestions.ts'
+import { TrackingService } from './services/tracking.ts'
+import { listSources } from './sources/index.ts'
+import type { CrawlMode } from './types/crawl.ts'
 
 /**
  * 定时任务调度器 (基于 deno-cron)
- * 每天执行一次爬取任务
+ * 每天执行一次增量爬取任务,爬取完成后检查媒体链接、刷新搜索建议标签并清理过期的浏览 / 下载事件
  */
 export class Scheduler {
   private crawler: CrawlerService
+  private linkChecker: LinkCheckerService
+  private suggestions: SuggestionService
+  private tracking: TrackingService
   private isRunning = false
 
   constructor() {
     this.crawler = new CrawlerService()
+    this.linkChecker = new LinkCheckerService()
+    this.suggestions = new SuggestionService()
+    this.tracking = new TrackingService()
   }
 
   /**
@@ -30,16 +41,7 @@ export class Scheduler {
     // cron 格式: 秒 分 时 日 月 周
     const cronExpression = `0 ${minute} ${hour} * * *`
 
-    cron(cronExpression, async () => {
-      console.log('🚀 开始执行定时爬取任务...')
-
-      try {
-        const result = await this.crawler.crawl()
-        console.log('✅ 定时爬取完成:', result)
-      } catch (error) {
-        console.error('❌ 定时爬取失败:', error)
-      }
-    })
+    cron(cronExpression, () => this.runDaily())
 
     // 启动 cron 调度器
     start()
@@ -51,6 +53,48 @@ export class Scheduler {
     )
   }
 
+  /**
+   * 执行一次每日任务: 增量爬取所有来源,然后检查媒体链接、刷新搜索建议标签并清理过期事件
+   * 单个步骤失败只记录日志,不影响后续步骤
+   */
+  async runDaily() {
+    console.log('🚀 开始执行定时爬取任务...')
+
+    // 依次增量爬取所有已注册的来源
+    for (const source of listSources()) {
+      try {
+        const result = await this.crawler.crawl('incremental', source.name)
+        console.log(`✅ 定时爬取完成 (${source.name}):`, result)
+      } catch (error) {
+        console.error(`❌ 定时爬取失败 (${source.name}):`, error)
+      }
+    }
+
+    // 检查最久未检查的一批壁纸的媒体链接
+    try {
+      const result = await this.linkChecker.check({ limit: 500 })
+      console.log('✅ 定时链接检查完成:', result)
+    } catch (error) {
+      console.error('❌ 定时链接检查失败:', error)
+    }
+
+    // 刷新搜索建议的标签快照 (包含本次爬取和下线的变化)
+    try {
+      await this.suggestions.refreshTags()
+      console.log('✅ 搜索建议标签已刷新')
+    } catch (error) {
+      console.error('❌ 刷新搜索建议标签失败:', error)
+    }
+
+    // 清理过期的浏览 / 下载事件
+    try {
+      const deleted = await this.tracking.cleanup()
+      console.log(`✅ 已清理过期事件: ${deleted}`)
+    } catch (error) {
+      console.error('❌ 清理过期事件失败:', error)
+    }
+  }
+
   /**
    * 停止定时任务
    */
@@ -64,11 +108,12 @@ export class Scheduler {
 
   /**
    * 立即执行一次爬取 (用于测试)
+   * @param mode 爬取模式 (默认增量)
    */
-  async runNow() {
+  async runNow(mode: CrawlMode = 'incremental') {
     console.log('🚀 手动触发爬取任务...')
     try {
-      const result = await this.crawler.crawl()
+      const result = await this.crawler.crawl(mode)
       console.log('✅ 手动爬取完成:', result)
       return result
     } catch (error) {
@@ -0,0 +1,83 @@
+import { assertEquals } from '@std/assert'
+
+// 只创建客户端,测试中不发起请求 (需在导入 main.ts 之前设置)
+Deno.env.set('SUPABASE_URL', 'http://localhost:54321')
+Deno.env.set('SUPABASE_ANON_KEY', 'test-anon-key')
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key')
+
+await import('../main.ts')
+const { Scheduler } = await import('./scheduler.ts')
+const { CrawlerService } = await import('./services/crawler.ts')
+const { LinkCheckerService } = await import('./services/linkChecker.ts')
+const { SuggestionService } = await import('./services/suggestions.ts')
+const { TrackingService } = await import('./services/tracking.ts')
+const { listSources } = await import('./sources/index.ts')
+
+/**
+ * 替换方法,返回恢复函数
+ */
+function stubMethod<T extends object, K extends keyof T>(
+  target: T,
+  key: K,
+  fn: (...args: unknown[]) => unknown,
+): () => void {
+  const original = target[key]
+  target[key] = fn as T[K]
+  return () => {
+    target[key] = original
+  }
+}
+
+/**
+ * 替换每日任务用到的服务方法,记录调用顺序
+ */
+function stubDailyTasks(calls: string[], options: { failRefresh?: boolean } = {}): () => void {
+  const restores = [
+    stubMethod(CrawlerService.prototype, 'crawl', async (_mode, source) => {
+      calls.push(`crawl:${source}`)
+      return {}
+    }),
+    stubMethod(LinkCheckerService.prototype, 'check', async () => {
+      calls.push('check')
+      return {}
+    }),
+    stubMethod(SuggestionService.prototype, 'refreshTags', async () => {
+      calls.push('refreshTags')
+      if (options.failRefresh) throw new Error('refresh failed')
+    }),
+    stubMethod(TrackingService.prototype, 'cleanup', async () => {
+      calls.push('cleanup')
+      return 0
+    }),
+  ]
+  return () => restores.forEach((restore) => restore())
+}
+
+Deno.test('每日任务爬取后刷新搜索建议并清理过期事件', async () => {
+  const calls: string[] = []
+  const restore = stubDailyTasks(calls)
+  try {
+    await new Scheduler().runDaily()
+  } finally {
+    restore()
+  }
+
+  assertEquals(calls, [
+    ...listSources().map((source) => `crawl:${source.name}`),
+    'check',
+    'refreshTags',
+    'cleanup',
+  ])
+})
+
+Deno.test('刷新搜索建议失败不影响清理过期事件', async () => {
+  const calls: string[] = []
+  const restore = stubDailyTasks(calls, { failRefresh: true })
+  try {
+    await new Scheduler().runDaily()
+  } finally {
+    restore()
+  }
+
+  assertEquals(calls.slice(-2), ['refreshTags', 'cleanup'])
+})
@@ -1,7 +1,43 @@
-import * as cheerio from 'https://esm.sh/cheerio@1.0.0-rc.12'
 import pLimit from 'npm:p-limit@6.1.0'
-import { supabase } from '../../main.ts'
-import type { MoewallsRawData, Wallpaper } from '../types/wallpaper.ts'
+import { supabaseAdmin } from '../../main.ts'
+import { createAIProvider, loadAIBudget } from '../ai/index.ts'
+import type { AIBudget, AIProvider, ChatMessage } from '../ai/index.ts'
+import type {
+  CrawlAIUsage,
+  CrawlEvent,
+  CrawlFailureStage,
+  CrawlItemResult,
+  CrawlLog,
+  CrawlMode,
+  CrawlProgress,
+  CrawlResult,
+  CrawlRunMode,
+  CrawlStats,
+} from '../types/crawl.ts'
+import { DEFAULT_SOURCE, getSource, WallpaperRemovedError } from '../sources/index.ts'
+import type { WallpaperSource } from '../sources/index.ts'
+import type {
+  RawWallpaperData,
+  Resolution,
+  Wallpaper,
+  WallpaperLockableField,
+} from '../types/wallpaper.ts'
+import {
+  buildRepairPrompt,
+  buildTranslationPrompt,
+  buildUserPrompt,
+  parseAIContent,
+  parseTranslation,
+  PROMPT_VERSION,
+  SYSTEM_PROMPT,
+  TRANSLATION_PROMPT_VERSION,
+  TRANSLATION_SYSTEM_PROMPT,
+} from '../utils/aiContent.ts'
+import type { ParseResult, TranslationContent, TranslationSource } from '../utils/aiContent.ts'
+import { getTargetLocales } from '../utils/locale.ts'
+import { parseResolution } from '../utils/validation.ts'
+import { TagAliasService } from './tagAliases.ts'
+import { TagDictionaryService } from './tagDictionary.ts'
 
 /**
  * 爬虫配置
@@ -12,22 +48,167 @@ interface CrawlerConfig {
   batchSize: number // 每批处理的 URL 数
   maxRetries: number // 最大重试次数
   retryDelayBase: number // 重试延迟基数（毫秒）
+  refreshChunkSize: number // 刷新时每次读取的壁纸数
 }
 
 /**
- * 统计信息
+ * 默认爬虫配置 (链接检查等任务复用相同的并发限制)
  */
-interface CrawlStats {
-  newCount: number
-  updatedCount: number
-  failedCount: number
-  skippedCount: number
+export const CRAWLER_CONFIG: CrawlerConfig = {
+  detailPageConcurrency: 8, // 详情页并发数
+  aiConcurrency: 5, // AI 请求并发数
+  batchSize: 50, // 每批处理的 URL 数
+  maxRetries: 5, // 最大重试次数
+  retryDelayBase: 1000, // 重试延迟基数（毫秒）
+  refreshChunkSize: 200, // 刷新时每次读取的壁纸数
+}
+
+/**
+ * 单个 URL 的处理阶段 (失败时记录)
+ */
+interface StageTracker {
+  stage: CrawlFailureStage
+  aiFallback?: boolean // AI 内容生成失败,已使用降级内容保存
+}
+
+/**
+ * URL 收集参数
+ */
+interface CollectOptions {
+  mode: CrawlMode
+  startPage: number
+}
+
+/**
+ * 刷新参数
+ */
+export interface RefreshOptions {
+  source?: string // 壁纸来源 (默认 DEFAULT_SOURCE)
+  limit: number // 单次最多刷新的壁纸数
+}
+
+/**
+ * AI 生成结果 (降级时只有 description,且不带版本信息)
+ */
+interface GeneratedContent {
+  description?: string
+  name_zh?: string
+  tags_zh?: string[]
+  ai_prompt_version?: string
+  ai_model?: string
+}
+
+/**
+ * AI 内容补全参数
+ */
+export interface EnrichOptions {
+  limit: number // 单次最多补全的壁纸数
+  includeOutdated: boolean // 是否包含提示词版本过期的壁纸
+  ids?: string[] // 指定壁纸: 整体重新生成中文内容 (锁定字段除外),不执行多语言翻译
+}
+
+// 补全任务读取的壁纸字段
+const ENRICHMENT_CANDIDATE_COLUMNS =
+  'id, source_id, source_url, name, tags, name_zh, tags_zh, description, ai_prompt_version, locked_fields'
+
+// 按 ID 读取指定壁纸时每次查询的数量
+const ENRICH_TARGET_CHUNK_SIZE = 100
+
+/**
+ * 待补全的壁纸
+ */
+interface EnrichmentCandidate {
+  id: string
+  source_id: string
+  source_url: string | null
+  name: string
+  tags: string[]
+  name_zh: string | null
+  tags_zh: string[] | null
+  description: string | null
+  ai_prompt_version: string | null
+  locked_fields: WallpaperLockableField[]
+}
+
+/**
+ * 失败重试参数
+ */
+export interface RetryFailedOptions {
+  source?: string // 壁纸来源 (默认 DEFAULT_SOURCE)
+  logId?: string // 仅重试指定爬取任务的失败记录
+  limit: number // 单次最多重试的 URL 数
+}
+
+/**
+ * HTTP 请求错误 (保留状态码)
+ */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+/**
+ * 是否为来源已删除的壁纸: 详情页 404 / 410,或下载按钮已移除
+ */
+function isRemovedFromSource(error: unknown): boolean {
+  if (error instanceof WallpaperRemovedError) return true
+  return error instanceof HttpError && (error.status === 404 || error.status === 410)
+}
+
+/**
+ * 初始 AI 用量
+ */
+function createIdleUsage(): CrawlAIUsage {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    budgetExhausted: false,
+  }
+}
+
+/**
+ * AI 用量对应的 crawl_logs 字段
+ */
+function usageFields(usage: CrawlAIUsage) {
+  return {
+    ai_requests: usage.requests,
+    ai_prompt_tokens: usage.promptTokens,
+    ai_completion_tokens: usage.completionTokens,
+    ai_total_tokens: usage.totalTokens,
+    ai_budget_exhausted: usage.budgetExhausted,
+  }
+}
+
+/**
+ * 初始 (空闲) 进度
+ */
+function createIdleProgress(): CrawlProgress {
+  return {
+    isRunning: false,
+    mode: null,
+    source: null,
+    phase: 'idle',
+    logId: null,
+    startedAt: null,
+    pagesScanned: 0,
+    urlsCollected: 0,
+    currentBatch: 0,
+    totalBatches: 0,
+    processedCount: 0,
+    stats: { newCount: 0, updatedCount: 0, failedCount: 0, skippedCount: 0, deactivatedCount: 0 },
+    aiUsage: createIdleUsage(),
+    etaSeconds: null,
+  }
 }
 
 export class CrawlerService {
-  private readonly AI_API_KEY: string
-  private readonly AI_BASE_URL: string
-  private readonly AI_MODEL: string
+  // AI 服务提供方 (未配置时为 null,使用降级策略) 与单次任务预算
+  private readonly ai: AIProvider | null
+  private readonly aiBudget: AIBudget
 
   private readonly MOBILE_UA =
     'Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1'
@@ -36,32 +217,41 @@ export class CrawlerService {
   private abortController: AbortController | null = null
   private isRunning = false
 
+  // 当前任务的来源适配器
+  private source: WallpaperSource = getSource(DEFAULT_SOURCE)!
+
+  // 实时进度与事件订阅者
+  private progress: CrawlProgress = createIdleProgress()
+  private processingStartedAt = 0
+  private listeners = new Set<(event: CrawlEvent) => void>()
+
+  // 标签规范化 (别名) 与翻译词典
+  private tagAliases = new TagAliasService()
+  private tagDictionary = new TagDictionaryService()
+
   // 并发控制器
   private detailLimiter: ReturnType<typeof pLimit>
   private aiLimiter: ReturnType<typeof pLimit>
 
   // 配置 - 保守方案
-  private config: CrawlerConfig = {
-    detailPageConcurrency: 8, // 详情页并发数
-    aiConcurrency: 5, // AI 请求并发数
-    batchSize: 50, // 每批处理的 URL 数
-    maxRetries: 5, // 最大重试次数
-    retryDelayBase: 1000, // 重试延迟基数（毫秒）
-  }
+  private config: CrawlerConfig = { ...CRAWLER_CONFIG }
 
   constructor() {
-    // 从环境变量读取 AI API 配置
-    this.AI_API_KEY = Deno.env.get('AI_API_KEY') || ''
-    this.AI_BASE_URL = Deno.env.get('AI_BASE_URL') ||
-      'https://api.siliconflow.cn/v1/chat/completions'
-    this.AI_MODEL = Deno.env.get('AI_MODEL') || 'deepseek-ai/DeepSeek-V3.2'
+    // 从环境变量读取 AI 配置
+    this.ai = createAIProvider()
+    this.aiBudget = loadAIBudget()
 
     // 初始化并发控制器
     this.detailLimiter = pLimit(this.config.detailPageConcurrency)
     this.aiLimiter = pLimit(this.config.aiConcurrency)
 
-    if (this.AI_API_KEY) {
-      console.log(`🤖 AI 配置: ${this.AI_BASE_URL} | 模型: ${this.AI_MODEL}`)
+    if (this.ai) {
+      const { maxTokens, maxRequests } = this.aiBudget
+      console.log(
+        `🤖 AI 配置: ${this.ai.name} | 模型: ${this.ai.model} | 单次预算: ${
+          maxTokens ?? '不限'
+        } tokens / ${maxRequests ?? '不限'} 次请求`,
+      )
     } else {
       console.warn('⚠️ 未配置 AI_API_KEY，将使用降级策略')
     }
@@ -74,28 +264,43 @@ export class CrawlerService {
 
   /**
    * 执行爬取任务 (并发模式)
+   * @param mode incremental: 遇到整页已入库即停止翻页; full: 遍历全部列表页 (用于补全)
+   * @param sourceName 来源适配器名称 (见 sources/index.ts)
    */
-  async crawl(): Promise<{ new_count: number; updated_count: number; failed_count: number }> {
+  async crawl(
+    mode: CrawlMode = 'incremental',
+    sourceName: string = DEFAULT_SOURCE,
+  ): Promise<CrawlResult> {
     if (this.isRunning) {
       throw new Error('已有爬取任务正在运行')
     }
 
-    this.isRunning = true
-    this.abortController = new AbortController()
-    console.log('🕷️ 开始爬取 moewalls.com (并发模式)...')
+    const source = getSource(sourceName)
+    if (!source) {
+      throw new Error(`未知的壁纸来源: ${sourceName}`)
+    }
+
+    console.log(
+      `🕷️ 开始爬取 ${source.baseUrl} (并发模式, ${mode === 'full' ? '全量' : '增量'})...`,
+    )
 
     const stats: CrawlStats = {
       newCount: 0,
       updatedCount: 0,
       failedCount: 0,
       skippedCount: 0,
+      deactivatedCount: 0,
     }
 
+    this.start(source, mode, stats)
+
     // 创建爬取日志记录
-    const { data: logEntry, error: logError } = await supabase
+    const { data: logEntry, error: logError } = await supabaseAdmin
       .from('crawl_logs')
       .insert({
         status: 'success',
+        mode,
+        source: source.name,
         wallpapers_count: 0,
         new_count: 0,
         updated_count: 0,
@@ -103,26 +308,659 @@ export class CrawlerService {
       .select('id')
       .single()
 
-    const logId = logEntry?.id
+    if (logError) {
+      console.error('创建爬取日志失败:', logError)
+    }
+
+    return await this.execute(logEntry?.id, stats, { mode, startPage: 1 }, false)
+  }
+
+  /**
+   * 恢复被终止或中断的爬取任务
+   * 未完成 URL 收集时从上次扫描的下一页继续收集,然后处理队列中所有 pending 的 URL
+   */
+  async resume(log: CrawlLog): Promise<CrawlResult> {
+    if (this.isRunning) {
+      throw new Error('已有爬取任务正在运行')
+    }
+
+    const source = getSource(log.source)
+    if (!source) {
+      throw new Error(`未知的壁纸来源: ${log.source}`)
+    }
+
+    console.log(
+      `🔁 恢复爬取任务 ${log.id} (${source.baseUrl}, 从第 ${log.last_page + 1} 页继续)...`,
+    )
+
+    // 沿用上次运行的统计
+    const stats: CrawlStats = {
+      newCount: log.new_count,
+      updatedCount: log.updated_count,
+      failedCount: log.failed_count,
+      skippedCount: log.skipped_count,
+      deactivatedCount: log.deactivated_count,
+    }
+
+    this.start(source, log.mode, stats)
+
+    // 沿用上次运行的 AI 用量 (预算按整个任务计算)
+    this.progress.aiUsage = {
+      requests: log.ai_requests,
+      promptTokens: log.ai_prompt_tokens,
+      completionTokens: log.ai_completion_tokens,
+      totalTokens: log.ai_total_tokens,
+      budgetExhausted: log.ai_budget_exhausted,
+    }
+
+    const { error } = await supabaseAdmin
+      .from('crawl_logs')
+      .update({
+        status: 'success',
+        aborted: false,
+        error_message: null,
+        completed_at: null,
+        resume_count: log.resume_count + 1,
+      })
+      .eq('id', log.id)
+
+    if (error) {
+      console.error('更新爬取日志失败:', error)
+    }
+
+    const collect = !log.collection_completed && (log.mode === 'incremental' || log.mode === 'full')
+      ? { mode: log.mode, startPage: log.last_page + 1 }
+      : null
+    return await this.execute(log.id, stats, collect, true)
+  }
+
+  /**
+   * 重试失败的 URL
+   * 将未解决的失败记录写入新任务 (mode = retry) 的检查点队列后按常规流程处理
+   */
+  async retryFailed(options: RetryFailedOptions): Promise<CrawlResult> {
+    return await this.runQueued('retry', options.source ?? DEFAULT_SOURCE, async (source) => {
+      let query = supabaseAdmin
+        .from('crawl_failures')
+        .select('url')
+        .eq('source', source.name)
+        .is('resolved_at', null)
+
+      if (options.logId) {
+        query = query.eq('crawl_log_id', options.logId)
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .limit(options.limit)
+
+      if (error) {
+        throw new Error(`读取失败记录失败: ${error.message}`)
+      }
+
+      const urls = (data || []).map((row) => row.url as string)
+      console.log(`🔁 开始重试 ${urls.length} 个失败 URL (${source.baseUrl})...`)
+      return urls
+    })
+  }
+
+  /**
+   * 刷新已入库的壁纸
+   * 按 crawled_at 升序 (最久未抓取的优先) 分块读取 active 壁纸并重新抓取详情页,
+   * 来源返回 404 / 410 或下载按钮已移除的壁纸标记为 inactive
+   */
+  async refresh(options: RefreshOptions): Promise<CrawlResult> {
+    return await this.runQueued('refresh', options.source ?? DEFAULT_SOURCE, async (source) => {
+      const urls: string[] = []
+      const startedAt = new Date().toISOString()
+      let cursor: { crawled_at: string; id: string } | null = null
+
+      while (urls.length < options.limit) {
+        let query = supabaseAdmin
+          .from('wallpapers')
+          .select('id, source_id, source_url, category, crawled_at')
+          .eq('source', source.name)
+          .eq('status', 'active')
+          .lt('crawled_at', startedAt)
+
+        // 键集分页: (crawled_at, id) 大于上一块的最后一行
+        if (cursor) {
+          query = query.or(
+            `crawled_at.gt."${cursor.crawled_at}",and(crawled_at.eq."${cursor.crawled_at}",id.gt.${cursor.id})`,
+          )
+        }
+
+        const { data, error } = await query
+          .order('crawled_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(Math.min(this.config.refreshChunkSize, options.limit - urls.length))
+
+        if (error) {
+          throw new Error(`读取待刷新壁纸失败: ${error.message}`)
+        }
+
+        for (const row of data || []) {
+          urls.push(row.source_url || source.detailPageUrl(row.source_id, row.category))
+        }
+
+        if (!data || data.length < this.config.refreshChunkSize) break
+        const last = data[data.length - 1]
+        cursor = { crawled_at: last.crawled_at, id: last.id }
+      }
+
+      console.log(`🔄 开始刷新 ${urls.length} 个已入库壁纸 (${source.baseUrl})...`)
+      return urls
+    })
+  }
+
+  /**
+   * AI 内容补全
+   * 为缺少中文名称 / 中文标签或使用降级描述的壁纸重新生成 AI 内容 (受 aiLimiter 并发限制),
+   * 只补全缺失的字段,AI 仍然失败的计入 failed;之后为缺少目标语言 (TRANSLATION_LOCALES) 翻译的壁纸生成翻译
+   * 指定 ids 时只重新生成这些壁纸的中文内容
+   */
+  async enrich(options: EnrichOptions): Promise<CrawlResult> {
+    if (this.isRunning) {
+      throw new Error('已有爬取任务正在运行')
+    }
+
+    if (!this.ai) {
+      throw new Error('未配置 AI 服务')
+    }
+
+    const stats: CrawlStats = {
+      newCount: 0,
+      updatedCount: 0,
+      failedCount: 0,
+      skippedCount: 0,
+      deactivatedCount: 0,
+    }
+
+    this.start(this.source, 'enrich', stats)
+    this.progress.source = null
+
+    // 创建爬取日志记录 (补全不区分来源)
+    const { data: logEntry, error: logError } = await supabaseAdmin
+      .from('crawl_logs')
+      .insert({
+        status: 'success',
+        mode: 'enrich',
+        source: 'all',
+        wallpapers_count: 0,
+        new_count: 0,
+        updated_count: 0,
+        collection_completed: true,
+      })
+      .select('id')
+      .single()
+
+    if (logError) {
+      console.error('创建爬取日志失败:', logError)
+    }
+
+    const logId: string | undefined = logEntry?.id
+    this.progress.logId = logId ?? null
+
+    try {
+      const candidates = options.ids
+        ? await this.loadEnrichTargets(options.ids.slice(0, options.limit))
+        : await this.loadEnrichmentCandidates(options.includeOutdated, options.limit)
+      const force = options.ids !== undefined
+      console.log(`🧠 开始补全 ${candidates.length} 个壁纸的 AI 内容...`)
+
+      const { batchSize } = this.config
+      this.progress.phase = 'processing'
+      this.progress.urlsCollected = candidates.length
+      this.progress.totalBatches = Math.ceil(candidates.length / batchSize)
+      this.processingStartedAt = Date.now()
+      this.emitProgress()
+
+      await this.enrichBatches(
+        candidates,
+        (candidate) => this.enrichWallpaper(candidate, stats, force),
+      )
+
+      // 多语言翻译: 在中文内容补全之后进行 (以中文内容为参考),与中文补全共用 limit
+      const locales = getTargetLocales()
+      const remaining = options.limit - candidates.length
+      if (!force && locales.length > 0 && remaining > 0 && !this.shouldStopEnrich()) {
+        const translationCandidates = await this.loadTranslationCandidates(
+          locales,
+          options.includeOutdated,
+          remaining,
+        )
+        console.log(
+          `🌐 开始翻译 ${translationCandidates.length} 个壁纸 (${locales.join(', ')})...`,
+        )
+
+        this.progress.urlsCollected += translationCandidates.length
+        this.progress.totalBatches += Math.ceil(translationCandidates.length / batchSize)
+        this.emitProgress()
+
+        await this.enrichBatches(
+          translationCandidates,
+          (candidate) =>
+            this.translateWallpaper(candidate, locales, options.includeOutdated, stats),
+        )
+      }
+
+      console.log(
+        `🧠 补全完成: 更新 ${stats.updatedCount}, 跳过 ${stats.skippedCount}, 失败 ${stats.failedCount}`,
+      )
+
+      await this.finishCrawlLog(logId, stats)
+
+      return {
+        new_count: stats.newCount,
+        updated_count: stats.updatedCount,
+        failed_count: stats.failedCount,
+      }
+    } catch (error) {
+      if (logId) {
+        await supabaseAdmin
+          .from('crawl_logs')
+          .update({
+            status: 'failed',
+            updated_count: stats.updatedCount,
+            skipped_count: stats.skippedCount,
+            failed_count: stats.failedCount,
+            ...usageFields(this.progress.aiUsage),
+            aborted: this.abortController?.signal.aborted ?? false,
+            error_message: error instanceof Error ? error.message : String(error),
+            completed_at: new Date().toISOString(),
+          })
+          .eq('id', logId)
+      }
+      throw error
+    } finally {
+      this.isRunning = false
+      this.abortController = null
+      this.progress = { ...this.progress, isRunning: false, phase: 'finished' }
+      this.emit({ type: 'finished', data: this.getStatus() })
+    }
+  }
+
+  /**
+   * 是否应停止补全: 收到终止信号,或超出 AI 预算 (剩余壁纸只会得到降级内容)
+   */
+  private shouldStopEnrich(): boolean {
+    if (this.abortController?.signal.aborted) {
+      console.log('🛑 补全时检测到终止信号')
+      return true
+    }
+
+    if (this.progress.aiUsage.budgetExhausted) {
+      console.log('💸 已超出 AI 预算,停止补全')
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * 分批并发执行补全 (每批开始前检查是否应停止)
+   */
+  private async enrichBatches<T>(items: T[], handler: (item: T) => Promise<void>): Promise<void> {
+    const { batchSize } = this.config
+    for (let i = 0; i < items.length; i += batchSize) {
+      if (this.shouldStopEnrich()) break
+
+      this.progress.currentBatch++
+      this.emitProgress()
+
+      await Promise.all(items.slice(i, i + batchSize).map(handler))
+    }
+  }
+
+  /**
+   * 读取缺少 AI 内容 (或提示词版本过期) 的壁纸
+   */
+  private async loadEnrichmentCandidates(
+    includeOutdated: boolean,
+    limit: number,
+  ): Promise<EnrichmentCandidate[]> {
+    const { data, error } = await supabaseAdmin
+      .rpc('enrichment_candidates', {
+        p_prompt_version: includeOutdated ? PROMPT_VERSION : null,
+      })
+      .select(ENRICHMENT_CANDIDATE_COLUMNS)
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`读取待补全壁纸失败: ${error.message}`)
+    }
+
+    return (data || []) as EnrichmentCandidate[]
+  }
+
+  /**
+   * 读取指定的壁纸 (分批查询,避免请求地址过长)
+   */
+  private async loadEnrichTargets(ids: string[]): Promise<EnrichmentCandidate[]> {
+    const candidates: EnrichmentCandidate[] = []
+
+    for (let i = 0; i < ids.length; i += ENRICH_TARGET_CHUNK_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('wallpapers')
+        .select(ENRICHMENT_CANDIDATE_COLUMNS)
+        .in('id', ids.slice(i, i + ENRICH_TARGET_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`读取待补全壁纸失败: ${error.message}`)
+      }
+      candidates.push(...((data || []) as EnrichmentCandidate[]))
+    }
+
+    return candidates
+  }
+
+  /**
+   * 读取缺少目标语言翻译的壁纸
+   */
+  private async loadTranslationCandidates(
+    locales: string[],
+    includeOutdated: boolean,
+    limit: number,
+  ): Promise<EnrichmentCandidate[]> {
+    const { data, error } = await supabaseAdmin
+      .rpc('translation_candidates', {
+        p_locales: locales,
+        p_prompt_version: includeOutdated ? TRANSLATION_PROMPT_VERSION : null,
+      })
+      .select(ENRICHMENT_CANDIDATE_COLUMNS)
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`读取待翻译壁纸失败: ${error.message}`)
+    }
+
+    return (data || []) as EnrichmentCandidate[]
+  }
+
+  /**
+   * 生成单个壁纸缺失 (或版本过期) 的目标语言翻译
+   * 部分语言翻译失败时保存成功的部分,计入 failed
+   */
+  private async translateWallpaper(
+    candidate: EnrichmentCandidate,
+    locales: string[],
+    includeOutdated: boolean,
+    stats: CrawlStats,
+  ): Promise<void> {
+    const item = { url: candidate.source_url ?? '', source_id: candidate.source_id }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('wallpaper_translations')
+      .select('locale, ai_prompt_version, stale')
+      .eq('wallpaper_id', candidate.id)
+
+    if (existingError) {
+      stats.failedCount++
+      this.reportItem({ ...item, result: 'failed', error: existingError.message, stage: 'db' })
+      return
+    }
+
+    const translated = new Set(
+      (existing || [])
+        .filter((row) =>
+          !row.stale && (!includeOutdated || row.ai_prompt_version === TRANSLATION_PROMPT_VERSION)
+        )
+        .map((row) => row.locale as string),
+    )
+    const pending = locales.filter((locale) => !translated.has(locale))
+
+    if (pending.length === 0) {
+      stats.skippedCount++
+      this.progress.processedCount++
+      this.emitProgress()
+      return
+    }
+
+    const source: TranslationSource = {
+      name: candidate.name,
+      name_zh: candidate.name_zh,
+      description: candidate.description,
+      tags: candidate.tags,
+    }
+
+    const results = await Promise.all(
+      pending.map(async (locale) => ({
+        locale,
+        translation: await this.generateTranslation(locale, source),
+      })),
+    )
+
+    const rows = results
+      .filter((result) => result.translation !== null)
+      .map(({ locale, translation }) => ({
+        wallpaper_id: candidate.id,
+        locale,
+        ...translation!,
+        ai_prompt_version: TRANSLATION_PROMPT_VERSION,
+        ai_model: this.ai!.model,
+        stale: false,
+      }))
+
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('wallpaper_translations')
+        .upsert(rows, { onConflict: 'wallpaper_id,locale' })
+
+      if (error) {
+        stats.failedCount++
+        this.reportItem({ ...item, result: 'failed', error: error.message, stage: 'db' })
+        return
+      }
+    }
+
+    if (rows.length < pending.length) {
+      const failedLocales = pending.filter((locale) => !rows.some((row) => row.locale === locale))
+      stats.failedCount++
+      this.reportItem({
+        ...item,
+        result: 'failed',
+        error: `AI 翻译失败: ${failedLocales.join(', ')}`,
+        stage: 'ai',
+      })
+      return
+    }
+
+    stats.updatedCount++
+    this.reportItem({ ...item, result: 'updated' })
+  }
+
+  /**
+   * 补全单个壁纸的 AI 内容
+   * 仅写入缺失或降级的字段;提示词版本过期或 force 时整体重新生成;人工锁定的字段不写入
+   */
+  private async enrichWallpaper(
+    candidate: EnrichmentCandidate,
+    stats: CrawlStats,
+    force = false,
+  ): Promise<void> {
+    const item = { url: candidate.source_url ?? '', source_id: candidate.source_id }
+    const fallbackDescription = `${candidate.name} - ${candidate.tags.join(', ')}`
+    const outdated = force ||
+      (candidate.ai_prompt_version !== null && candidate.ai_prompt_version !== PROMPT_VERSION)
+
+    const aiContent = await this.generateAIContent(candidate.name, candidate.tags)
+
+    // AI 失败时 generateAIContent 返回降级内容 (无版本信息)
+    if (!aiContent.ai_prompt_version) {
+      stats.failedCount++
+      this.reportItem({ ...item, result: 'failed', error: 'AI 内容生成失败', stage: 'ai' })
+      return
+    }
+
+    const locked = new Set(candidate.locked_fields)
+    const update: Partial<Wallpaper> = {}
+    if ((outdated || !candidate.name_zh) && aiContent.name_zh && !locked.has('name_zh')) {
+      update.name_zh = aiContent.name_zh
+    }
+    if (
+      (outdated || !candidate.tags_zh?.length) && aiContent.tags_zh?.length &&
+      !locked.has('tags_zh')
+    ) {
+      update.tags_zh = aiContent.tags_zh
+    }
+    if (
+      (outdated || !candidate.description || candidate.description === fallbackDescription) &&
+      aiContent.description && !locked.has('description')
+    ) {
+      update.description = aiContent.description
+    }
+
+    if (Object.keys(update).length > 0) {
+      update.ai_prompt_version = aiContent.ai_prompt_version
+      update.ai_model = aiContent.ai_model
+    }
+
+    if (Object.keys(update).length === 0) {
+      stats.skippedCount++
+      this.progress.processedCount++
+      this.emitProgress()
+      return
+    }
+
+    const { error } = await supabaseAdmin
+      .from('wallpapers')
+      .update(update)
+      .eq('id', candidate.id)
+
+    if (error) {
+      stats.failedCount++
+      this.reportItem({ ...item, result: 'failed', error: error.message, stage: 'db' })
+      return
+    }
+
+    stats.updatedCount++
+    this.reportItem({ ...item, result: 'updated' })
+  }
+
+  /**
+   * 以固定 URL 列表运行任务 (retry / refresh)
+   * URL 写入新任务的检查点队列,中断后可通过 resume 继续
+   */
+  private async runQueued(
+    mode: CrawlRunMode,
+    sourceName: string,
+    loadUrls: (source: WallpaperSource) => Promise<string[]>,
+  ): Promise<CrawlResult> {
+    if (this.isRunning) {
+      throw new Error('已有爬取任务正在运行')
+    }
+
+    const source = getSource(sourceName)
+    if (!source) {
+      throw new Error(`未知的壁纸来源: ${sourceName}`)
+    }
+
+    const stats: CrawlStats = {
+      newCount: 0,
+      updatedCount: 0,
+      failedCount: 0,
+      skippedCount: 0,
+      deactivatedCount: 0,
+    }
+
+    this.start(source, mode, stats)
+
+    let urls: string[]
+    try {
+      urls = await loadUrls(source)
+    } catch (error) {
+      this.isRunning = false
+      this.abortController = null
+      this.progress = { ...this.progress, isRunning: false, phase: 'finished' }
+      throw error
+    }
+
+    const { data: logEntry, error: logError } = await supabaseAdmin
+      .from('crawl_logs')
+      .insert({
+        status: 'success',
+        mode,
+        source: source.name,
+        wallpapers_count: 0,
+        new_count: 0,
+        updated_count: 0,
+        collection_completed: true,
+      })
+      .select('id')
+      .single()
 
     if (logError) {
       console.error('创建爬取日志失败:', logError)
+    } else {
+      await this.enqueueUrls(logEntry.id, urls)
+    }
+
+    return await this.execute(logEntry?.id, stats, null, true, urls)
+  }
+
+  /**
+   * 初始化运行状态
+   */
+  private start(source: WallpaperSource, mode: CrawlRunMode, stats: CrawlStats): void {
+    this.isRunning = true
+    this.source = source
+    this.abortController = new AbortController()
+
+    this.progress = {
+      ...createIdleProgress(),
+      isRunning: true,
+      mode,
+      source: source.name,
+      phase: 'collecting',
+      startedAt: new Date().toISOString(),
+      stats,
     }
+  }
+
+  /**
+   * 执行收集 + 处理两个阶段
+   * @param collect 收集参数,null 表示跳过收集阶段
+   * @param fromQueue 是否处理检查点队列中所有 pending 的 URL (而不仅是本次收集的)
+   * @param urls 跳过收集时直接处理的 URL (检查点队列不可用时使用)
+   */
+  private async execute(
+    logId: string | undefined,
+    stats: CrawlStats,
+    collect: CollectOptions | null,
+    fromQueue: boolean,
+    urls: string[] = [],
+  ): Promise<CrawlResult> {
+    this.progress.logId = logId ?? null
+    this.emitProgress()
 
     try {
-      // 第一阶段: 收集所有 URL
-      console.log('📋 阶段 1: 收集所有 URL...')
-      const allUrls = await this.collectAllUrls()
-      console.log(`✅ 共收集到 ${allUrls.length} 个 URL`)
+      // 第一阶段: 收集所有新 URL (每页写入检查点队列)
+      let allUrls: string[] = urls
+      if (collect) {
+        console.log('📋 阶段 1: 收集所有 URL...')
+        allUrls = await this.collectAllUrls(collect.mode, stats, collect.startPage, logId)
+        console.log(`✅ 共收集到 ${allUrls.length} 个新 URL (跳过已存在: ${stats.skippedCount})`)
+      }
+
+      if (fromQueue && logId) {
+        allUrls = await this.loadPendingUrls(logId)
+        this.progress.urlsCollected = allUrls.length
+        console.log(`📋 队列中待处理 URL: ${allUrls.length}`)
+      }
 
       if (allUrls.length === 0) {
         console.log('⚠️ 未找到任何 URL，结束爬取')
-        return { new_count: 0, updated_count: 0, failed_count: 0 }
+        await this.finishCrawlLog(logId, stats)
+        return {
+          new_count: stats.newCount,
+          updated_count: stats.updatedCount,
+          failed_count: stats.failedCount,
+        }
       }
 
       // 第二阶段: 批量并发处理 URL
       console.log('🚀 阶段 2: 批量并发处理...')
-      await this.processBatches(allUrls, stats)
+      await this.processBatches(allUrls, stats, logId)
 
       const statusMsg = this.abortController?.signal.aborted ? '\n🛑 爬取已终止' : '\n🎉 爬取完成'
       console.log(
@@ -130,24 +968,7 @@ export class CrawlerService {
       )
 
       // 更新爬取日志
-      if (logId) {
-        const finalStatus = this.abortController?.signal.aborted
-          ? 'partial'
-          : stats.failedCount > 0
-          ? 'partial'
-          : 'success'
-
-        await supabase
-          .from('crawl_logs')
-          .update({
-            status: finalStatus,
-            wallpapers_count: stats.newCount + stats.updatedCount,
-            new_count: stats.newCount,
-            updated_count: stats.updatedCount,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', logId)
-      }
+      await this.finishCrawlLog(logId, stats)
 
       return {
         new_count: stats.newCount,
@@ -157,10 +978,17 @@ export class CrawlerService {
     } catch (error) {
       // 记录失败日志
       if (logId) {
-        await supabase
+        await supabaseAdmin
           .from('crawl_logs')
           .update({
             status: 'failed',
+            new_count: stats.newCount,
+            updated_count: stats.updatedCount,
+            skipped_count: stats.skippedCount,
+            failed_count: stats.failedCount,
+            deactivated_count: stats.deactivatedCount,
+            ...usageFields(this.progress.aiUsage),
+            aborted: this.abortController?.signal.aborted ?? false,
             error_message: error instanceof Error ? error.message : String(error),
             completed_at: new Date().toISOString(),
           })
@@ -170,9 +998,18 @@ export class CrawlerService {
     } finally {
       this.isRunning = false
       this.abortController = null
+      this.progress = { ...this.progress, isRunning: false, phase: 'finished' }
+      this.emit({ type: 'finished', data: this.getStatus() })
     }
   }
 
+  /**
+   * 是否已配置 AI 服务
+   */
+  isAiEnabled(): boolean {
+    return this.ai !== null
+  }
+
   /**
    * 终止正在运行的爬取任务
    */
@@ -187,19 +1024,105 @@ export class CrawlerService {
   }
 
   /**
-   * 检查是否有任务正在运行
+   * 获取实时进度 (未运行时返回最近一次任务的最终进度)
+   */
+  getStatus(): CrawlProgress {
+    return {
+      ...this.progress,
+      isRunning: this.isRunning,
+      stats: { ...this.progress.stats },
+      aiUsage: { ...this.progress.aiUsage },
+      etaSeconds: this.estimateEta(),
+    }
+  }
+
+  /**
+   * 订阅爬取事件,返回取消订阅函数
+   */
+  subscribe(listener: (event: CrawlEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * 推送事件给所有订阅者 (订阅者异常不影响爬取)
+   */
+  private emit(event: CrawlEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('推送爬取事件失败:', error)
+      }
+    }
+  }
+
+  /**
+   * 推送当前进度
+   */
+  private emitProgress(): void {
+    if (this.listeners.size === 0) return
+    this.emit({ type: 'progress', data: this.getStatus() })
+  }
+
+  /**
+   * 预估剩余时间 (秒): 按处理阶段的平均耗时推算
+   */
+  private estimateEta(): number | null {
+    const { phase, processedCount, urlsCollected } = this.progress
+    if (phase === 'finished') return 0
+    if (phase !== 'processing' || processedCount === 0) return null
+
+    const elapsedSeconds = (Date.now() - this.processingStartedAt) / 1000
+    return Math.round((elapsedSeconds / processedCount) * (urlsCollected - processedCount))
+  }
+
+  /**
+   * 写入爬取结果到日志
    */
-  getStatus(): { isRunning: boolean } {
-    return { isRunning: this.isRunning }
+  private async finishCrawlLog(logId: string | undefined, stats: CrawlStats): Promise<void> {
+    if (!logId) return
+
+    const aborted = this.abortController?.signal.aborted ?? false
+    const finalStatus = aborted || stats.failedCount > 0 ? 'partial' : 'success'
+
+    const { error } = await supabaseAdmin
+      .from('crawl_logs')
+      .update({
+        status: finalStatus,
+        wallpapers_count: stats.newCount + stats.updatedCount,
+        new_count: stats.newCount,
+        updated_count: stats.updatedCount,
+        skipped_count: stats.skippedCount,
+        failed_count: stats.failedCount,
+        deactivated_count: stats.deactivatedCount,
+        ...usageFields(this.progress.aiUsage),
+        aborted,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', logId)
+
+    if (error) {
+      console.error('更新爬取日志失败:', error)
+    }
   }
 
   /**
-   * 阶段 1: 串行收集所有列表页的 URL
+   * 阶段 1: 串行收集列表页中尚未入库的 URL
+   * 每页批量查询已存在的 ID;增量模式下遇到整页均已入库时停止翻页
    */
-  private async collectAllUrls(): Promise<string[]> {
+  private async collectAllUrls(
+    mode: CrawlMode,
+    stats: CrawlStats,
+    startPage: number,
+    logId?: string,
+  ): Promise<string[]> {
     const allUrls: string[] = []
-    let page = 1
+    let page = startPage
     let emptyCount = 0
+    let completed = false
 
     while (emptyCount < 3) {
       if (this.abortController?.signal.aborted) {
@@ -219,15 +1142,32 @@ export class CrawlerService {
           console.log(`⚠️ 第 ${page} 页无数据 (连续空页: ${emptyCount}/3)`)
         } else {
           emptyCount = 0
-          allUrls.push(...urls)
-          console.log(`✅ 第 ${page} 页: ${urls.length} 个 URL (总计: ${allUrls.length})`)
+          const newUrls = await this.filterKnownUrls(urls)
+          stats.skippedCount += urls.length - newUrls.length
+          allUrls.push(...newUrls)
+          if (logId) await this.enqueueUrls(logId, newUrls)
+          this.progress.urlsCollected = allUrls.length
+          console.log(
+            `✅ 第 ${page} 页: ${newUrls.length}/${urls.length} 个新 URL (总计: ${allUrls.length})`,
+          )
+
+          if (mode === 'incremental' && newUrls.length === 0) {
+            console.log(`⏹️ 第 ${page} 页已全部入库,增量爬取停止翻页`)
+            completed = true
+          }
         }
 
+        this.progress.pagesScanned = page
+        this.emitProgress()
+        if (logId) await this.saveCheckpoint(logId, page, completed || emptyCount >= 3)
+        if (completed) break
+
         page++
         await this.delay(500) // 页面间隔 500ms
       } catch (error) {
         console.error(`❌ 第 ${page} 页获取失败:`, error)
         emptyCount++
+        if (logId && emptyCount >= 3) await this.saveCheckpoint(logId, page, true)
         page++
       }
     }
@@ -235,12 +1175,121 @@ export class CrawlerService {
     return allUrls
   }
 
+  /**
+   * 将新 URL 写入检查点队列 (状态 pending)
+   */
+  private async enqueueUrls(logId: string, urls: string[]): Promise<void> {
+    if (urls.length === 0) return
+
+    const { error } = await supabaseAdmin
+      .from('crawl_queue')
+      .upsert(
+        urls.map((url) => ({
+          crawl_log_id: logId,
+          url,
+          source_id: this.source.extractId(url),
+          status: 'pending',
+        })),
+        { onConflict: 'crawl_log_id,url', ignoreDuplicates: true },
+      )
+
+    if (error) {
+      console.error('写入爬取队列失败:', error)
+    }
+  }
+
+  /**
+   * 保存 URL 收集进度
+   */
+  private async saveCheckpoint(logId: string, page: number, completed: boolean): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('crawl_logs')
+      .update({ last_page: page, collection_completed: completed })
+      .eq('id', logId)
+
+    if (error) {
+      console.error('保存爬取检查点失败:', error)
+    }
+  }
+
+  /**
+   * 读取队列中待处理的 URL
+   */
+  private async loadPendingUrls(logId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from('crawl_queue')
+      .select('url')
+      .eq('crawl_log_id', logId)
+      .eq('status', 'pending')
+      .order('id', { ascending: true })
+
+    if (error) {
+      throw new Error(`读取爬取队列失败: ${error.message}`)
+    }
+
+    return (data || []).map((row) => row.url as string)
+  }
+
+  /**
+   * 更新队列中单个 URL 的处理状态
+   */
+  private async markQueueItem(
+    logId: string,
+    url: string,
+    status: 'done' | 'failed',
+    errorMessage?: string,
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('crawl_queue')
+      .update({
+        status,
+        error_message: errorMessage ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('crawl_log_id', logId)
+      .eq('url', url)
+
+    if (error) {
+      console.error('更新爬取队列失败:', error)
+    }
+  }
+
+  /**
+   * 批量过滤已入库的 URL (每页一次查询)
+   */
+  private async filterKnownUrls(urls: string[]): Promise<string[]> {
+    const ids = urls.map((url) => this.source.extractId(url))
+
+    const { data, error } = await supabaseAdmin
+      .from('wallpapers')
+      .select('source_id')
+      .eq('source', this.source.name)
+      .in('source_id', ids)
+
+    // 查询失败时不过滤,由 processWallpaper 处理已存在的记录
+    if (error) {
+      console.error('批量查询已存在壁纸失败:', error)
+      return urls
+    }
+
+    const known = new Set((data || []).map((row) => row.source_id as string))
+    return urls.filter((_, index) => !known.has(ids[index]))
+  }
+
   /**
    * 阶段 2: 批量并发处理 URL
    */
-  private async processBatches(urls: string[], stats: CrawlStats): Promise<void> {
+  private async processBatches(
+    urls: string[],
+    stats: CrawlStats,
+    logId?: string,
+  ): Promise<void> {
     const { batchSize } = this.config
 
+    this.progress.phase = 'processing'
+    this.progress.totalBatches = Math.ceil(urls.length / batchSize)
+    this.processingStartedAt = Date.now()
+
     for (let i = 0; i < urls.length; i += batchSize) {
       if (this.abortController?.signal.aborted) {
         console.log('🛑 批处理时检测到终止信号')
@@ -253,9 +1302,12 @@ export class CrawlerService {
 
       console.log(`\n📦 批次 ${batchNum}/${totalBatches}: 处理 ${batch.length} 个 URL`)
 
+      this.progress.currentBatch = batchNum
+      this.emitProgress()
+
       // 并发处理当前批次
       const results = await Promise.allSettled(
-        batch.map((url) => this.processUrl(url, stats)),
+        batch.map((url) => this.processUrl(url, stats, logId)),
       )
 
       // 统计本批次结果
@@ -279,44 +1331,133 @@ export class CrawlerService {
   /**
    * 处理单个 URL
    */
-  private async processUrl(url: string, stats: CrawlStats): Promise<void> {
-    // 提取 ID
-    const urlParts = url.replace(/\/$/, '').split('/')
-    const moewallsId = urlParts[urlParts.length - 1]
+  private async processUrl(url: string, stats: CrawlStats, logId?: string): Promise<void> {
+    const sourceId = this.source.extractId(url)
+    // 当前所处阶段,失败时记录
+    const tracker: StageTracker = { stage: 'fetch' }
 
     try {
-      // 快速检查是否已存在
-      const { data: existing } = await supabase
-        .from('wallpapers')
-        .select('id')
-        .eq('moewalls_id', moewallsId)
-        .maybeSingle()
-
-      if (existing) {
-        stats.skippedCount++
-        return
-      }
-
       // 使用详情页并发限制器 + 重试
-      const wallpaper = await this.detailLimiter(async () => {
+      const html = await this.detailLimiter(async () => {
         return await this.retryWithBackoff(
-          () => this.fetchDetailPage(url),
-          `详情页 ${moewallsId}`,
+          () => this.fetchHtml(url),
+          `详情页 ${sourceId}`,
         )
       })
 
+      tracker.stage = 'parse'
+      const wallpaper = this.source.parseDetailPage(html, url)
+
       // 处理并保存
-      const result = await this.processWallpaper(wallpaper)
+      const result = await this.processWallpaper(wallpaper, url, tracker)
 
       if (result === 'new') stats.newCount++
       if (result === 'updated') stats.updatedCount++
+
+      if (result !== 'skipped') {
+        this.reportItem({ url, source_id: sourceId, result })
+      }
+      if (logId) await this.markQueueItem(logId, url, 'done')
+
+      // 使用降级内容时记为 ai 阶段失败,重试时重新生成 AI 内容
+      if (tracker.aiFallback) {
+        await this.recordFailure(logId, url, sourceId, 'ai', 'AI 内容生成失败,已使用降级内容')
+      } else {
+        await this.resolveFailure(url)
+      }
     } catch (error) {
+      // 刷新时来源已删除: 下线壁纸,不记为失败
+      if (this.progress.mode === 'refresh' && isRemovedFromSource(error)) {
+        console.log(`🗑️ 来源已删除,下线壁纸 ${sourceId}`)
+        await this.deactivateWallpaper(sourceId)
+        stats.deactivatedCount++
+        this.reportItem({ url, source_id: sourceId, result: 'deactivated' })
+        if (logId) await this.markQueueItem(logId, url, 'done')
+        await this.resolveFailure(url)
+        return
+      }
+
       stats.failedCount++
-      console.error(`❌ 处理失败 ${moewallsId}:`, error instanceof Error ? error.message : error)
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`❌ 处理失败 ${sourceId} [${tracker.stage}]:`, message)
+      this.reportItem({
+        url,
+        source_id: sourceId,
+        result: 'failed',
+        error: message,
+        stage: tracker.stage,
+      })
+      if (logId) await this.markQueueItem(logId, url, 'failed', message)
+      await this.recordFailure(logId, url, sourceId, tracker.stage, message)
       throw error
     }
   }
 
+  /**
+   * 下线来源已删除的壁纸 (人工锁定状态的除外)
+   */
+  private async deactivateWallpaper(sourceId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('wallpapers')
+      .update({ status: 'inactive' })
+      .eq('source', this.source.name)
+      .eq('source_id', sourceId)
+      .not('locked_fields', 'cs', '{status}')
+
+    if (error) {
+      console.error('下线壁纸失败:', error)
+    }
+  }
+
+  /**
+   * 记录 URL 处理失败 (同一 URL 累加尝试次数)
+   */
+  private async recordFailure(
+    logId: string | undefined,
+    url: string,
+    sourceId: string,
+    stage: CrawlFailureStage,
+    message: string,
+  ): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('record_crawl_failure', {
+      p_crawl_log_id: logId ?? null,
+      p_source: this.source.name,
+      p_source_id: sourceId,
+      p_url: url,
+      p_stage: stage,
+      p_error_message: message,
+    })
+
+    if (error) {
+      console.error('记录失败信息失败:', error)
+    }
+  }
+
+  /**
+   * 将之前失败的 URL 标记为已解决
+   */
+  private async resolveFailure(url: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('crawl_failures')
+      .update({ resolved_at: new Date().toISOString() })
+      .eq('source', this.source.name)
+      .eq('url', url)
+      .is('resolved_at', null)
+
+    if (error) {
+      console.error('更新失败记录失败:', error)
+    }
+  }
+
+  /**
+   * 记录单个 URL 处理完成并推送事件
+   */
+  private reportItem(item: CrawlItemResult): void {
+    this.progress.processedCount++
+    this.emit({ type: 'wallpaper', data: item })
+    this.emitProgress()
+  }
+
   /**
    * 带指数退避的重试机制
    */
@@ -331,6 +1472,9 @@ export class CrawlerService {
       try {
         return await fn()
       } catch (error) {
+        // 页面已不存在,重试无意义
+        if (isRemovedFromSource(error)) throw error
+
         lastError = error instanceof Error ? error : new Error(String(error))
 
         if (attempt < maxRetries - 1) {
@@ -360,10 +1504,9 @@ export class CrawlerService {
   }
 
   /**
-   * 爬取列表页获取详情页链接
+   * 请求页面 HTML (30 秒超时)
    */
-  private async fetchListPage(page: number): Promise<string[]> {
-    const url = `https://moewalls.com/page/${page}/`
+  private async fetchHtml(url: string): Promise<string> {
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 30000)
 
@@ -380,29 +1523,10 @@ export class CrawlerService {
       clearTimeout(timeoutId)
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        throw new HttpError(response.status, `HTTP ${response.status}: ${response.statusText}`)
       }
 
-      const html = await response.text()
-      const $ = cheerio.load(html)
-
-      // 提取所有壁纸详情页链接
-      const urls: string[] = []
-      $('article.entry-tpl-grid .entry-featured-media a').each((_, el) => {
-        const href = $(el).attr('href')
-        if (
-          href && href.includes('moewalls.com/') && !href.includes('/page/') &&
-          !href.includes('/category/') && !href.includes('/resolution/')
-        ) {
-          urls.push(href)
-        }
-      })
-
-      // 释放 Cheerio 占用的内存
-      // @ts-ignore - Cheerio 内部清理
-      $.root().empty()
-
-      return urls
+      return await response.text()
     } catch (error) {
       clearTimeout(timeoutId)
       if (error instanceof Error && error.name === 'AbortError') {
@@ -413,138 +1537,93 @@ export class CrawlerService {
   }
 
   /**
-   * 爬取详情页获取壁纸数据
+   * 爬取列表页获取详情页链接
    */
-  private async fetchDetailPage(url: string): Promise<MoewallsRawData> {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 30000)
-
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': this.MOBILE_UA,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        },
-        signal: controller.signal,
-      })
-
-      clearTimeout(timeoutId)
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
-
-      const html = await response.text()
-      const $ = cheerio.load(html)
-
-      // 提取壁纸 ID (从 URL 的最后一段提取)
-      const urlParts = url.replace(/\/$/, '').split('/')
-      const id = urlParts[urlParts.length - 1] || crypto.randomUUID()
-
-      // 提取标题
-      const name = $('h1.entry-title').text().trim() || 'Untitled'
-
-      // 提取封面图
-      let cover_url = $('video').attr('poster') || ''
-      if (!cover_url) {
-        cover_url = $('.entry-featured-media img').first().attr('src') || ''
-      }
-      if (cover_url && cover_url.startsWith('/')) {
-        cover_url = `https://moewalls.com${cover_url}`
-      }
-
-      // 提取预览视频
-      let preview_url = $('video source[src*=".webm"]').attr('src') || ''
-      if (!preview_url) {
-        preview_url = $('video source').first().attr('src') || ''
-      }
-      if (preview_url && preview_url.startsWith('/')) {
-        preview_url = `https://moewalls.com${preview_url}`
-      }
-
-      // 提取下载链接
-      const downloadBtn = $('button#moe-download')
-      const dataUrl = downloadBtn.attr('data-url')
-      if (!dataUrl) {
-        throw new Error(`未找到下载链接: ${url}`)
-      }
-      const video_url = `https://go.moewalls.com/download.php?video=${dataUrl}`
-
-      // 提取标签
-      const tags: string[] = []
-      $('.tag-items a, .entry-tags a').each((_, el) => {
-        const tag = $(el).text().trim()
-        if (tag) tags.push(tag)
-      })
-
-      // 释放 Cheerio 占用的内存
-      // @ts-ignore - Cheerio 内部清理
-      $.root().empty()
-
-      return {
-        id,
-        name,
-        cover_url,
-        preview_url,
-        video_url,
-        tags,
-      }
-    } catch (error) {
-      clearTimeout(timeoutId)
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('请求超时')
-      }
-      throw error
-    }
+  private async fetchListPage(page: number): Promise<string[]> {
+    const html = await this.fetchHtml(this.source.listPageUrl(page))
+    return this.source.parseListPage(html)
   }
 
   /**
    * 处理单个壁纸
    */
   private async processWallpaper(
-    raw: MoewallsRawData,
+    raw: RawWallpaperData,
+    url: string,
+    tracker: StageTracker = { stage: 'parse' },
   ): Promise<'new' | 'updated' | 'skipped'> {
     // 输入验证
     if (!raw.id || !raw.preview_url || !raw.video_url) {
       throw new Error('Invalid wallpaper data: missing required fields')
     }
 
-    // 1. 检查是否已存在
-    const { data: existing } = await supabase
+    // 1. 标签规范化为 slug 并应用别名,检查是否已存在
+    tracker.stage = 'db'
+    const { data: existing } = await supabaseAdmin
       .from('wallpapers')
-      .select('id, description, name_zh, tags_zh')
-      .eq('moewalls_id', raw.id)
+      .select('id, name, tags, description, name_zh, tags_zh, locked_fields')
+      .eq('source', this.source.name)
+      .eq('source_id', raw.id)
       .maybeSingle()
 
-    // 2. 生成 AI 内容 (描述 + 翻译)，仅在不存在时调用
-    let description = existing?.description
-    let name_zh = existing?.name_zh
-    let tags_zh = existing?.tags_zh
-
-    if (!description || !name_zh || !tags_zh || tags_zh.length === 0) {
-      const aiContent = await this.generateAIContent(raw.name, raw.tags)
-      description = aiContent.description || description
-      name_zh = aiContent.name_zh || name_zh
-      tags_zh = aiContent.tags_zh || tags_zh
+    // 人工锁定的字段保留现有值
+    const locked = new Set<WallpaperLockableField>(existing?.locked_fields || [])
+    const tags = locked.has('tags') ? existing!.tags : await this.tagAliases.canonicalize(raw.tags)
+
+    // 2. 生成 AI 内容 (描述 + 翻译)，仅在缺失或标题 / 标签变化时调用
+    const contentChanged = existing !== null &&
+      (existing.name !== raw.name || !this.sameTags(existing.tags, tags))
+    const regenerate = (field: WallpaperLockableField) => contentChanged && !locked.has(field)
+
+    let description = regenerate('description') ? undefined : existing?.description
+    let name_zh = regenerate('name_zh') ? undefined : existing?.name_zh
+    let tags_zh = regenerate('tags_zh') ? undefined : existing?.tags_zh
+    let aiVersion: Pick<Wallpaper, 'ai_prompt_version' | 'ai_model'> = {}
+
+    const missing = (!description && !locked.has('description')) ||
+      (!name_zh && !locked.has('name_zh')) ||
+      ((!tags_zh || tags_zh.length === 0) && !locked.has('tags_zh'))
+
+    if (missing) {
+      tracker.stage = 'ai'
+      const aiContent = await this.generateAIContent(raw.name, tags)
+      if (!locked.has('description')) description = aiContent.description || description
+      if (!locked.has('name_zh')) name_zh = aiContent.name_zh || name_zh
+      if (!locked.has('tags_zh')) tags_zh = aiContent.tags_zh || tags_zh
+      if (aiContent.ai_prompt_version) {
+        aiVersion = { ai_prompt_version: aiContent.ai_prompt_version, ai_model: aiContent.ai_model }
+      } else if (this.ai) {
+        tracker.aiFallback = true
+      }
     }
 
     // 3. 准备数据
+    tracker.stage = 'db'
+    const maxResolution = this.getMaxResolution(raw.resolutions)
     const wallpaperData: Partial<Wallpaper> = {
-      moewalls_id: raw.id,
+      source: this.source.name,
+      source_id: raw.id,
+      // moewalls_id 仅为兼容旧客户端保留
+      ...(this.source.name === 'moewalls' ? { moewalls_id: raw.id } : {}),
+      source_url: url,
       name: raw.name,
       name_zh,
       description,
+      ...aiVersion,
       cover_url: raw.cover_url,
       preview_url: raw.preview_url,
       video_url: raw.video_url,
+      category: raw.category,
+      resolutions: raw.resolutions,
+      max_width: maxResolution?.width ?? null,
+      max_height: maxResolution?.height ?? null,
       crawled_at: new Date().toISOString(),
     }
 
     let wallpaperId: string
 
     if (existing) {
-      const { data, error } = await supabase
+      const { data, error } = await supabaseAdmin
         .from('wallpapers')
         .update(wallpaperData)
         .eq('id', existing.id)
@@ -554,7 +1633,7 @@ export class CrawlerService {
       if (error) throw new Error(`更新失败: ${error.message}`)
       wallpaperId = data.id
     } else {
-      const { data, error } = await supabase
+      const { data, error } = await supabaseAdmin
         .from('wallpapers')
         .insert(wallpaperData)
         .select('id')
@@ -565,107 +1644,192 @@ export class CrawlerService {
     }
 
     // 4. 处理标签 (包含中文翻译)
-    await this.processTags(wallpaperId, raw.tags, tags_zh)
+    await this.processTags(wallpaperId, tags, tags_zh)
 
     return existing ? 'updated' : 'new'
   }
 
+  /**
+   * 比较标签集合 (忽略顺序)
+   */
+  private sameTags(a: string[] | null, b: string[]): boolean {
+    const left = [...(a || [])].sort()
+    const right = [...b].sort()
+    return left.length === right.length && left.every((tag, i) => tag === right[i])
+  }
+
+  /**
+   * 取像素数最大的分辨率
+   */
+  private getMaxResolution(resolutions: string[]): Resolution | null {
+    let max: Resolution | null = null
+    for (const value of resolutions) {
+      const parsed = parseResolution(value)
+      if (parsed && (!max || parsed.width * parsed.height > max.width * max.height)) {
+        max = parsed
+      }
+    }
+    return max
+  }
+
   /**
    * 生成 AI 内容 (描述 + 中文翻译) - 使用 AI 并发限制
+   * 标签优先使用词典中的规范翻译,只让 AI 翻译未收录的标签;
+   * 输出未通过校验时附带问题列表重新提示一次,仍不合格则使用降级策略
    */
   private async generateAIContent(
     name: string,
     tags: string[],
-  ): Promise<{
-    description?: string
-    name_zh?: string
-    tags_zh?: string[]
-  }> {
-    // 降级策略
-    const fallback = {
+  ): Promise<GeneratedContent> {
+    const known = await this.tagDictionary.lookup(tags)
+    const pendingTags = [...new Set(tags.filter((tag) => !known.has(tag)))]
+
+    // 降级策略 (不记录提示词版本,便于之后补全);标签均已收录时仍可使用词典翻译
+    const fallback: GeneratedContent = {
       description: `${name} - ${tags.join(', ')}`,
-      name_zh: undefined,
-      tags_zh: undefined,
+      tags_zh: pendingTags.length === 0 && tags.length > 0
+        ? tags.map((tag) => known.get(tag)!)
+        : undefined,
     }
 
-    // 未配置 AI API Key
-    if (!this.AI_API_KEY) {
+    const data = await this.requestValidated(
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: buildUserPrompt(name, tags, pendingTags) },
+      ],
+      (text) => parseAIContent(text, pendingTags),
+      `AI 内容生成 ${name}`,
+    )
+
+    if (!data) {
       return fallback
     }
 
+    // 新翻译的标签写入词典,与已收录的翻译按原顺序合并
+    const learned = new Map(pendingTags.map((tag, i) => [tag, data.tags_zh[i]]))
+    await this.tagDictionary.learn(learned)
+
+    return {
+      ...data,
+      tags_zh: tags.map((tag) => known.get(tag) ?? learned.get(tag)!),
+      ai_prompt_version: PROMPT_VERSION,
+      ai_model: this.ai!.model,
+    }
+  }
+
+  /**
+   * 生成目标语言的翻译 (名称 + 描述 + 标签),失败时返回 null
+   */
+  private async generateTranslation(
+    locale: string,
+    source: TranslationSource,
+  ): Promise<TranslationContent | null> {
+    return await this.requestValidated(
+      [
+        { role: 'system', content: TRANSLATION_SYSTEM_PROMPT },
+        { role: 'user', content: buildTranslationPrompt(locale, source) },
+      ],
+      (text) => parseTranslation(text, locale, source.tags),
+      `AI 翻译 (${locale}) ${source.name}`,
+    )
+  }
+
+  /**
+   * 请求 AI 并校验输出 - 使用 AI 并发限制
+   * 输出未通过校验时附带问题列表重新提示一次;未配置 AI、超出预算、请求失败或修复后仍不合格时返回 null
+   */
+  private async requestValidated<T>(
+    messages: ChatMessage[],
+    parse: (text: string) => ParseResult<T>,
+    label: string,
+  ): Promise<T | null> {
+    // 未配置 AI 服务
+    if (!this.ai) {
+      return null
+    }
+
     // 使用 AI 并发限制器
     return await this.aiLimiter(async () => {
-      return await this.retryWithBackoff(
-        async () => {
-          const systemPrompt = `你是一个专业的壁纸描述生成助手。请根据壁纸信息生成中文内容，以 JSON 格式返回（不要包含 markdown 代码块标记）。`
-
-          const userPrompt = `原始标题: ${name}
-标签: ${tags.join(', ')}
-
-请返回 JSON 格式：
-{
-  "name_zh": "中文标题翻译",
-  "description": "面向搜索的生动描述，突出壁纸特点和视觉效果。",
-  "tags_zh": ["中文标签1", "中文标签2", ...]
-}
+      // 排队期间可能已超出预算
+      if (this.isAiBudgetExhausted()) {
+        return null
+      }
 
-要求：
-1. name_zh: 简洁优雅的中文标题
-2. description: 生动形象的描述，吸引用户
-3. tags_zh: 准确翻译所有标签`
-
-          const response = await fetch(this.AI_BASE_URL, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${this.AI_API_KEY}`,
-            },
-            body: JSON.stringify({
-              model: this.AI_MODEL,
-              messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userPrompt },
-              ],
-              temperature: 0.7,
-              max_tokens: 500,
-            }),
-          })
+      try {
+        const text = await this.retryWithBackoff(() => this.requestAI(messages), label)
+        let result = parse(text)
+
+        // 校验失败: 附带问题列表重新提示 (已超出预算时直接降级)
+        if (!result.success && !this.isAiBudgetExhausted()) {
+          console.warn(`⚠️ AI 输出未通过校验 ${label}: ${result.issues.join('; ')}`)
+          const repaired = await this.retryWithBackoff(
+            () =>
+              this.requestAI([
+                ...messages,
+                { role: 'assistant', content: text },
+                { role: 'user', content: buildRepairPrompt(result.success ? [] : result.issues) },
+              ]),
+            `${label} (修复)`,
+          )
+          result = parse(repaired)
+        }
 
-          if (!response.ok) {
-            const errorText = await response.text()
-            throw new Error(`AI API error: ${response.status} - ${errorText}`)
-          }
+        if (!result.success) {
+          throw new Error(`AI 输出校验失败: ${result.issues.join('; ')}`)
+        }
+
+        return result.data
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error(`❌ ${label}失败，使用降级策略:`, message)
+        return null
+      }
+    })
+  }
 
-          const data = await response.json()
-          const text = data.choices?.[0]?.message?.content?.trim()
+  /**
+   * 请求 AI 服务,累计本次任务的请求次数与 token 用量,返回回复文本
+   */
+  private async requestAI(messages: ChatMessage[]): Promise<string> {
+    const usage = this.progress.aiUsage
+    usage.requests++
 
-          if (!text) {
-            throw new Error('AI 返回空内容')
-          }
+    const response = await this.ai!.chat(messages)
+    usage.promptTokens += response.usage.promptTokens
+    usage.completionTokens += response.usage.completionTokens
+    usage.totalTokens += response.usage.totalTokens
 
-          // 清理可能的 markdown 代码块标记
-          const cleanedText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
-          const result = JSON.parse(cleanedText)
+    return response.text
+  }
 
-          return {
-            description: result.description || fallback.description,
-            name_zh: result.name_zh,
-            tags_zh: Array.isArray(result.tags_zh) ? result.tags_zh : undefined,
-          }
-        },
-        `AI 内容生成 ${name}`,
-      ).catch((error) => {
-        console.error(`❌ AI 内容生成失败，使用降级策略:`, error.message)
-        return fallback
-      })
-    })
+  /**
+   * 本次任务是否已超出 AI 预算 (首次超出时记录日志)
+   * 并发中的请求会在超出后继续完成,实际用量可能略高于预算
+   */
+  private isAiBudgetExhausted(): boolean {
+    const usage = this.progress.aiUsage
+    if (usage.budgetExhausted) return true
+
+    const { maxTokens, maxRequests } = this.aiBudget
+    const exhausted = (maxTokens !== null && usage.totalTokens >= maxTokens) ||
+      (maxRequests !== null && usage.requests >= maxRequests)
+
+    if (exhausted) {
+      usage.budgetExhausted = true
+      console.warn(
+        `💸 已超出 AI 预算 (${usage.totalTokens} tokens / ${usage.requests} 次请求),之后使用降级策略`,
+      )
+      this.emitProgress()
+    }
+
+    return exhausted
   }
 
   /**
    * 处理标签: 直接更新 wallpapers 表的 tags 和 tags_zh 字段
    */
   private async processTags(wallpaperId: string, tagNames: string[], tagsZh?: string[] | null) {
-    const { error } = await supabase
+    const { error } = await supabaseAdmin
       .from('wallpapers')
       .update({
         tags: tagNames,
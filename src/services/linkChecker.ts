@@ -0,0 +1,362 @@
+import pLimit from 'npm:p-limit@6.1.0'
+import { supabaseAdmin } from '../../main.ts'
+import { CRAWLER_CONFIG } from './crawler.ts'
+import type {
+  LinkCheckChange,
+  LinkCheckProgress,
+  MediaCheck,
+  MediaCheckResult,
+  MediaField,
+} from '../types/linkCheck.ts'
+import type { WallpaperLockableField } from '../types/wallpaper.ts'
+
+// 需要检查的媒体链接
+const MEDIA_FIELDS: MediaField[] = ['cover_url', 'preview_url', 'video_url']
+
+// 连续失败达到该次数后下线壁纸
+const MAX_FAILURES = 3
+
+// 单个请求超时 (毫秒)
+const REQUEST_TIMEOUT = 15000
+
+// 日志中最多保留的变更明细数
+const MAX_REPORTED_CHANGES = 500
+
+// HEAD 不被支持时改用 Range 请求的状态码
+const HEAD_UNSUPPORTED = [403, 405, 501]
+
+const USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1'
+
+/**
+ * 待检查的壁纸
+ */
+interface LinkCheckTarget {
+  id: string
+  source_id: string
+  name: string
+  cover_url: string
+  preview_url: string
+  video_url: string
+  media_failures: number
+  locked_fields: WallpaperLockableField[]
+}
+
+/**
+ * 链接检查参数
+ */
+export interface LinkCheckOptions {
+  limit: number // 单次最多检查的壁纸数
+}
+
+/**
+ * 链接检查结果
+ */
+export interface LinkCheckResult {
+  checked_count: number
+  broken_count: number
+  deactivated_count: number
+  recovered_count: number
+}
+
+/**
+ * 初始 (空闲) 进度
+ */
+function createIdleProgress(): LinkCheckProgress {
+  return {
+    isRunning: false,
+    logId: null,
+    startedAt: null,
+    total: 0,
+    checkedCount: 0,
+    brokenCount: 0,
+    deactivatedCount: 0,
+    recoveredCount: 0,
+  }
+}
+
+/**
+ * 媒体链接检查服务
+ * 对 active 壁纸的封面 / 预览 / 下载链接发起 HEAD (或 Range) 请求,按最久未检查优先,
+ * 任一链接不可用计为一次失败,连续失败 MAX_FAILURES 次后下线壁纸 (人工锁定状态的除外)
+ */
+export class LinkCheckerService {
+  private isRunning = false
+  private abortController: AbortController | null = null
+  private progress: LinkCheckProgress = createIdleProgress()
+
+  // 独立于爬虫的限制器: 媒体链接指向 CDN 而非来源站点,检查与爬取任务可同时运行互不阻塞;
+  // 并发数沿用详情页配置
+  private limiter = pLimit(CRAWLER_CONFIG.detailPageConcurrency)
+
+  /**
+   * 执行链接检查
+   */
+  async check(options: LinkCheckOptions): Promise<LinkCheckResult> {
+    if (this.isRunning) {
+      throw new Error('已有链接检查任务正在运行')
+    }
+
+    this.isRunning = true
+    this.abortController = new AbortController()
+    this.progress = {
+      ...createIdleProgress(),
+      isRunning: true,
+      startedAt: new Date().toISOString(),
+    }
+
+    const changes: LinkCheckChange[] = []
+
+    // 创建检查日志记录
+    const { data: logEntry, error: logError } = await supabaseAdmin
+      .from('link_check_logs')
+      .insert({ status: 'success' })
+      .select('id')
+      .single()
+
+    if (logError) {
+      console.error('创建链接检查日志失败:', logError)
+    }
+
+    const logId: string | undefined = logEntry?.id
+    this.progress.logId = logId ?? null
+
+    try {
+      const targets = await this.loadTargets(options.limit)
+      this.progress.total = targets.length
+      console.log(`🔗 开始检查 ${targets.length} 个壁纸的媒体链接...`)
+
+      const { batchSize } = CRAWLER_CONFIG
+      for (let i = 0; i < targets.length; i += batchSize) {
+        // 收到终止信号时在当前批次完成后停止
+        if (this.abortController?.signal.aborted) {
+          console.log('🛑 链接检查已终止')
+          break
+        }
+
+        const batch = targets.slice(i, i + batchSize)
+        await Promise.all(batch.map((target) => this.checkWallpaper(target, changes)))
+      }
+
+      const { brokenCount, deactivatedCount, recoveredCount, checkedCount } = this.progress
+      console.log(
+        `🔗 链接检查完成: 检查 ${checkedCount}, 异常 ${brokenCount}, 下线 ${deactivatedCount}, 恢复 ${recoveredCount}`,
+      )
+
+      if (logId) {
+        await this.updateLog(logId, changes, { status: 'success' })
+      }
+
+      return {
+        checked_count: checkedCount,
+        broken_count: brokenCount,
+        deactivated_count: deactivatedCount,
+        recovered_count: recoveredCount,
+      }
+    } catch (error) {
+      if (logId) {
+        await this.updateLog(logId, changes, {
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : String(error),
+        })
+      }
+      throw error
+    } finally {
+      this.isRunning = false
+      this.abortController = null
+      this.progress = { ...this.progress, isRunning: false }
+    }
+  }
+
+  /**
+   * 终止正在运行的检查任务
+   */
+  abort(): boolean {
+    if (!this.isRunning || !this.abortController) {
+      return false
+    }
+
+    console.log('🛑 收到终止请求,正在停止链接检查任务...')
+    this.abortController.abort()
+    return true
+  }
+
+  /**
+   * 查询当前 (或最近一次) 检查进度
+   */
+  getStatus(): LinkCheckProgress {
+    return { ...this.progress }
+  }
+
+  /**
+   * 读取待检查的壁纸 (从未检查或最久未检查的优先)
+   */
+  private async loadTargets(limit: number): Promise<LinkCheckTarget[]> {
+    const { data, error } = await supabaseAdmin
+      .from('wallpapers')
+      .select(
+        'id, source_id, name, cover_url, preview_url, video_url, media_failures, locked_fields',
+      )
+      .eq('status', 'active')
+      .order('media_checked_at', { ascending: true, nullsFirst: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`读取待检查壁纸失败: ${error.message}`)
+    }
+
+    return (data || []) as LinkCheckTarget[]
+  }
+
+  /**
+   * 检查单个壁纸的所有媒体链接并保存结果
+   */
+  private async checkWallpaper(target: LinkCheckTarget, changes: LinkCheckChange[]): Promise<void> {
+    const mediaCheck: MediaCheck = {}
+
+    await Promise.all(
+      MEDIA_FIELDS.filter((field) => target[field]).map(async (field) => {
+        mediaCheck[field] = await this.limiter(() => this.checkUrl(target[field]))
+      }),
+    )
+
+    const brokenFields = MEDIA_FIELDS.filter((field) => mediaCheck[field]?.ok === false)
+    const failures = brokenFields.length > 0 ? target.media_failures + 1 : 0
+    const deactivate = failures >= MAX_FAILURES && !target.locked_fields.includes('status')
+
+    const { error } = await supabaseAdmin
+      .from('wallpapers')
+      .update({
+        media_checked_at: new Date().toISOString(),
+        media_check: mediaCheck,
+        media_failures: failures,
+        ...(deactivate ? { status: 'inactive' } : {}),
+      })
+      .eq('id', target.id)
+
+    if (error) {
+      console.error(`❌ 保存链接检查结果失败 ${target.source_id}:`, error)
+      return
+    }
+
+    this.progress.checkedCount++
+
+    let change: LinkCheckChange['change'] | null = null
+    if (deactivate) {
+      change = 'deactivated'
+      this.progress.deactivatedCount++
+    } else if (brokenFields.length > 0 && target.media_failures === 0) {
+      change = 'broken'
+    } else if (brokenFields.length === 0 && target.media_failures > 0) {
+      change = 'recovered'
+      this.progress.recoveredCount++
+    }
+
+    if (brokenFields.length > 0) {
+      this.progress.brokenCount++
+      console.warn(
+        `⚠️ 链接不可用 ${target.source_id}: ${brokenFields.join(', ')} (连续 ${failures} 次)`,
+      )
+    }
+
+    if (change && changes.length < MAX_REPORTED_CHANGES) {
+      changes.push({
+        id: target.id,
+        source_id: target.source_id,
+        name: target.name,
+        change,
+        broken_fields: brokenFields,
+        failures,
+      })
+    }
+  }
+
+  /**
+   * 检查单个链接: 优先 HEAD,服务器不支持时改用只取 1 字节的 Range 请求
+   */
+  private async checkUrl(url: string): Promise<MediaCheckResult> {
+    try {
+      let response = await this.request(url, 'HEAD')
+
+      if (HEAD_UNSUPPORTED.includes(response.status)) {
+        response = await this.request(url, 'GET', { Range: 'bytes=0-0' })
+      }
+
+      // Range 响应的总大小在 Content-Range 中: bytes 0-0/12345
+      const contentRange = response.headers.get('content-range')
+      const total = contentRange?.match(/\/(\d+)$/)?.[1]
+      const contentLength = total ?? response.headers.get('content-length')
+
+      return {
+        status: response.status,
+        content_type: response.headers.get('content-type'),
+        content_length: contentLength ? Number(contentLength) : null,
+        ok: response.ok,
+      }
+    } catch (error) {
+      return {
+        status: null,
+        content_type: null,
+        content_length: null,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  /**
+   * 发起请求 (超时控制,不读取响应体)
+   */
+  private async request(
+    url: string,
+    method: 'HEAD' | 'GET',
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'User-Agent': USER_AGENT, ...headers },
+        signal: controller.signal,
+      })
+      await response.body?.cancel()
+      return response
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('请求超时')
+      }
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  /**
+   * 写入检查结果
+   */
+  private async updateLog(
+    logId: string,
+    changes: LinkCheckChange[],
+    fields: { status: 'success' | 'failed'; error_message?: string },
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('link_check_logs')
+      .update({
+        ...fields,
+        checked_count: this.progress.checkedCount,
+        broken_count: this.progress.brokenCount,
+        deactivated_count: this.progress.deactivatedCount,
+        recovered_count: this.progress.recoveredCount,
+        changes,
+        aborted: this.abortController?.signal.aborted ?? false,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', logId)
+
+    if (error) {
+      console.error('更新链接检查日志失败:', error)
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { supabaseAdmin } from '../../main.ts'
+import type { LocalizedContent, Wallpaper } from '../types/wallpaper.ts'
+import { SOURCE_LOCALE, ZH_LOCALE } from '../utils/locale.ts'
+
+/**
+ * 生成本地化内容所需的壁纸字段
+ */
+type LocalizableWallpaper = Pick<
+  Wallpaper,
+  'id' | 'name' | 'name_zh' | 'description' | 'tags' | 'tags_zh'
+>
+
+/**
+ * 翻译标签与原标签一一对应时使用翻译,否则回退到原文标签
+ */
+function alignedTags(tags: string[], translated: string[] | null | undefined): string[] {
+  return translated && translated.length === tags.length ? translated : tags
+}
+
+/**
+ * 壁纸本地化服务
+ * 原文和中文直接取 wallpapers 表字段,其他语言取 wallpaper_translations,缺失的翻译回退到原文
+ */
+export class LocalizationService {
+  /**
+   * 为壁纸附加指定语言的本地化内容
+   */
+  async localize<T extends LocalizableWallpaper>(
+    items: T[],
+    locale: string,
+  ): Promise<(T & { localized: LocalizedContent })[]> {
+    if (locale === SOURCE_LOCALE) {
+      return items.map((item) => ({
+        ...item,
+        localized: { locale, name: item.name, description: item.description, tags: item.tags },
+      }))
+    }
+
+    if (locale === ZH_LOCALE) {
+      return items.map((item) => ({
+        ...item,
+        localized: {
+          locale,
+          name: item.name_zh || item.name,
+          description: item.description,
+          tags: alignedTags(item.tags, item.tags_zh),
+        },
+      }))
+    }
+
+    const translations = new Map<string, Omit<LocalizedContent, 'locale'>>()
+    if (items.length > 0) {
+      const { data, error } = await supabaseAdmin
+        .from('wallpaper_translations')
+        .select('wallpaper_id, name, description, tags')
+        .eq('locale', locale)
+        .in('wallpaper_id', items.map((item) => item.id))
+
+      // 查询失败时回退到原文,不影响主流程
+      if (error) {
+        console.error('查询壁纸翻译失败:', error)
+      }
+
+      for (const row of data || []) {
+        translations.set(row.wallpaper_id, row)
+      }
+    }
+
+    return items.map((item) => {
+      const translation = translations.get(item.id)
+      return {
+        ...item,
+        localized: {
+          locale: translation ? locale : SOURCE_LOCALE,
+          name: translation?.name || item.name,
+          description: translation?.description || item.description,
+          tags: alignedTags(item.tags, translation?.tags),
+        },
+      }
+    })
+  }
+}
@@ -0,0 +1,75 @@
+import { supabase, supabaseAdmin } from '../../main.ts'
+import type { SearchSuggestion } from '../types/search.ts'
+import { CJK_PATTERN } from '../utils/locale.ts'
+
+// 建议缓存有效期 (毫秒)
+const CACHE_TTL = 5 * 60_000
+
+// 最多缓存的搜索词数
+const MAX_CACHE_ENTRIES = 1000
+
+// 最短搜索词长度 (含中日韩文字时为 1)
+const MIN_QUERY_LENGTH = 2
+
+// 建议缓存 (所有实例共享,按写入顺序淘汰)
+const suggestionCache = new Map<string, { items: SearchSuggestion[]; cachedAt: number }>()
+
+/**
+ * 搜索建议服务
+ * 通过 search_suggestions 函数 (pg_trgm) 匹配壁纸名称、原文标签和中文标签,结果在内存中缓存;
+ * 标签来自物化视图 tag_suggestions,由定时任务和管理端任务完成后刷新
+ */
+export class SuggestionService {
+  /**
+   * 查询搜索建议 (搜索词过短时返回空)
+   */
+  async suggest(query: string, limit: number): Promise<SearchSuggestion[]> {
+    if (query.length < MIN_QUERY_LENGTH && !CJK_PATTERN.test(query)) {
+      return []
+    }
+
+    const key = `${query.toLowerCase()}:${limit}`
+    const cached = suggestionCache.get(key)
+    if (cached && Date.now() - cached.cachedAt < CACHE_TTL) {
+      return cached.items
+    }
+
+    const { data, error } = await supabase.rpc('search_suggestions', {
+      p_query: query,
+      p_limit: limit,
+    })
+
+    if (error) {
+      throw new Error(`查询搜索建议失败: ${error.message}`)
+    }
+
+    const items: SearchSuggestion[] = ((data || []) as SearchSuggestion[]).map((row) => ({
+      type: row.type,
+      value: row.value,
+      label: row.label,
+    }))
+
+    // 超出上限时淘汰最早写入的搜索词
+    suggestionCache.delete(key)
+    if (suggestionCache.size >= MAX_CACHE_ENTRIES) {
+      const oldest = suggestionCache.keys().next().value
+      if (oldest !== undefined) suggestionCache.delete(oldest)
+    }
+    suggestionCache.set(key, { items, cachedAt: Date.now() })
+
+    return items
+  }
+
+  /**
+   * 刷新标签快照 (物化视图 tag_suggestions),并清空建议缓存
+   */
+  async refreshTags(): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('refresh_tag_suggestions')
+
+    if (error) {
+      throw new Error(`刷新搜索建议标签失败: ${error.message}`)
+    }
+
+    suggestionCache.clear()
+  }
+}
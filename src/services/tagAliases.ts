@@ -0,0 +1,160 @@
+import { supabaseAdmin } from '../../main.ts'
+import type { TagAlias } from '../types/tag.ts'
+import {
+  buildAliasMap,
+  canonicalizeWith,
+  normalizeTag,
+  resolveAlias,
+  slugifyTag,
+  tagToPhrase,
+} from '../utils/tags.ts'
+
+// 别名缓存有效期 (毫秒)
+const CACHE_TTL = 60_000
+
+// 分页读取别名表的每页行数
+const PAGE_SIZE = 1000
+
+// 别名缓存 (所有实例共享,修改别名时清空)
+let aliasCache: { aliases: Map<string, string>; loadedAt: number } | null = null
+
+/**
+ * 标签别名服务
+ * 标签先规范化为 slug,再通过别名表映射到规范标签;过滤时展开为规范标签 + 全部别名
+ */
+export class TagAliasService {
+  /**
+   * 读取别名映射 (别名 → 规范标签,规范标签映射到自身)
+   */
+  async loadAliases(): Promise<Map<string, string>> {
+    if (aliasCache && Date.now() - aliasCache.loadedAt < CACHE_TTL) {
+      return aliasCache.aliases
+    }
+
+    const rows: { alias: string; tag: string }[] = []
+    for (let offset = 0;; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('tag_aliases')
+        .select('alias, tag')
+        .order('alias', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`读取标签别名失败: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const aliases = buildAliasMap(rows)
+    aliasCache = { aliases, loadedAt: Date.now() }
+    return aliases
+  }
+
+  /**
+   * 清空别名缓存
+   */
+  clearCache(): void {
+    aliasCache = null
+  }
+
+  /**
+   * 解析为规范标签 slug
+   */
+  async resolve(tag: string): Promise<string> {
+    const aliases = await this.loadAliases()
+    return resolveAlias(aliases, tag)
+  }
+
+  /**
+   * 解析别名的目标标签: 保留人工指定的词形 (不还原单数),目标本身是别名时解析到其规范标签
+   */
+  async resolveTarget(tag: string): Promise<string> {
+    const aliases = await this.loadAliases()
+    const slug = slugifyTag(tag)
+    return aliases.get(slug) ?? aliases.get(normalizeTag(tag)) ?? slug
+  }
+
+  /**
+   * 批量解析为规范标签 (去重并保持顺序,丢弃规范化后为空的标签)
+   */
+  async canonicalize(tags: string[]): Promise<string[]> {
+    const aliases = await this.loadAliases()
+    return canonicalizeWith(aliases, tags)
+  }
+
+  /**
+   * 展开过滤标签: 每个标签返回原始写法、规范标签及其所有别名 (兼容尚未规范化的数据)
+   */
+  async expand(tags: string[]): Promise<string[][]> {
+    const aliases = await this.loadAliases()
+
+    return tags.map((tag) => {
+      const slug = normalizeTag(tag)
+      const canonical = resolveAlias(aliases, tag)
+      const variants = new Set([tag, slug, canonical])
+      for (const [alias, target] of aliases) {
+        if (target === canonical) variants.add(alias)
+      }
+      variants.delete('')
+      return Array.from(variants)
+    })
+  }
+
+  /**
+   * 搜索词整体为别名时,追加规范标签短语 (websearch 语法的 or)
+   */
+  async expandSearch(search: string): Promise<string> {
+    const aliases = await this.loadAliases()
+    const slug = normalizeTag(search)
+    const canonical = aliases.get(slug)
+    return canonical && canonical !== slug ? `${search} or "${tagToPhrase(canonical)}"` : search
+  }
+
+  /**
+   * 设置别名 (alias 与 tag 均为规范化后的 slug,tag 不能是别名)
+   * 原本指向 alias 的别名改为指向 tag,避免出现别名链
+   */
+  async setAlias(alias: string, tag: string): Promise<TagAlias> {
+    const { data, error } = await supabaseAdmin
+      .from('tag_aliases')
+      .upsert({ alias, tag }, { onConflict: 'alias' })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`保存标签别名失败: ${error.message}`)
+    }
+
+    const { error: repointError } = await supabaseAdmin
+      .from('tag_aliases')
+      .update({ tag })
+      .eq('tag', alias)
+
+    if (repointError) {
+      console.error('更新别名链失败:', repointError)
+    }
+
+    this.clearCache()
+    return data as TagAlias
+  }
+
+  /**
+   * 删除别名,返回是否存在
+   */
+  async removeAlias(alias: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('tag_aliases')
+      .delete()
+      .eq('alias', alias)
+      .select('alias')
+
+    if (error) {
+      throw new Error(`删除标签别名失败: ${error.message}`)
+    }
+
+    this.clearCache()
+    return (data || []).length > 0
+  }
+}
@@ -0,0 +1,97 @@
+import { supabaseAdmin } from '../../main.ts'
+import type { TagTranslation } from '../types/tag.ts'
+
+/**
+ * 标签翻译词典服务
+ * 爬取时优先使用词典中的规范翻译,只让 AI 翻译未收录的标签;
+ * AI 翻译结果首次出现时写入词典,人工修正可回写到已有壁纸
+ */
+export class TagDictionaryService {
+  /**
+   * 查询标签的规范翻译 (查询失败时返回空结果,由 AI 翻译全部标签)
+   */
+  async lookup(tags: string[]): Promise<Map<string, string>> {
+    const translations = new Map<string, string>()
+    if (tags.length === 0) return translations
+
+    const { data, error } = await supabaseAdmin
+      .from('tag_translations')
+      .select('tag, label_zh')
+      .in('tag', [...new Set(tags)])
+
+    if (error) {
+      console.error('查询标签翻译失败:', error)
+      return translations
+    }
+
+    for (const row of data || []) {
+      translations.set(row.tag, row.label_zh)
+    }
+    return translations
+  }
+
+  /**
+   * 记录 AI 翻译的新标签 (已收录的标签保持不变)
+   */
+  async learn(translations: Map<string, string>): Promise<void> {
+    if (translations.size === 0) return
+
+    const { error } = await supabaseAdmin
+      .from('tag_translations')
+      .upsert(
+        Array.from(translations, ([tag, label_zh]) => ({ tag, label_zh, origin: 'ai' })),
+        { onConflict: 'tag', ignoreDuplicates: true },
+      )
+
+    if (error) {
+      console.error('写入标签翻译失败:', error)
+    }
+  }
+
+  /**
+   * 人工修正标签翻译 (不存在时新增)
+   */
+  async correct(tag: string, labelZh: string): Promise<TagTranslation> {
+    const { data, error } = await supabaseAdmin
+      .from('tag_translations')
+      .upsert({ tag, label_zh: labelZh, origin: 'manual' }, { onConflict: 'tag' })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`保存标签翻译失败: ${error.message}`)
+    }
+
+    return data as TagTranslation
+  }
+
+  /**
+   * 删除标签翻译 (之后由 AI 重新翻译),返回是否存在
+   */
+  async remove(tag: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('tag_translations')
+      .delete()
+      .eq('tag', tag)
+      .select('tag')
+
+    if (error) {
+      throw new Error(`删除标签翻译失败: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * 将词典翻译回写到包含该标签的壁纸,返回更新的壁纸数
+   */
+  async propagate(tag: string): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc('propagate_tag_translation', { p_tag: tag })
+
+    if (error) {
+      throw new Error(`回写标签翻译失败: ${error.message}`)
+    }
+
+    return (data as number) ?? 0
+  }
+}
@@ -0,0 +1,304 @@
+import { supabaseAdmin } from '../../main.ts'
+import { CRAWLER_CONFIG } from './crawler.ts'
+import { TagAliasService } from './tagAliases.ts'
+import type {
+  TagNormalizeChange,
+  TagNormalizeProgress,
+  TagNormalizeResult,
+  TagTranslationOrigin,
+} from '../types/tag.ts'
+import type { WallpaperLockableField } from '../types/wallpaper.ts'
+import { canonicalizeWith, resolveAlias } from '../utils/tags.ts'
+
+// 每次读取的壁纸 / 词典条目数
+const CHUNK_SIZE = 500
+
+// 结果中最多保留的变更示例数
+const MAX_SAMPLES = 20
+
+/**
+ * 待规范化的壁纸
+ */
+interface NormalizeTarget {
+  id: string
+  source_id: string
+  tags: string[] | null
+  tags_zh: string[] | null
+  locked_fields: WallpaperLockableField[]
+}
+
+/**
+ * 词典条目
+ */
+interface TranslationEntry {
+  tag: string
+  label_zh: string
+  origin: TagTranslationOrigin
+}
+
+/**
+ * 标签规范化参数
+ */
+export interface TagNormalizeOptions {
+  dryRun: boolean // 只统计变更,不写入
+}
+
+/**
+ * 初始 (空闲) 进度
+ */
+function createIdleProgress(): TagNormalizeProgress {
+  return {
+    isRunning: false,
+    dryRun: false,
+    startedAt: null,
+    completedAt: null,
+    scannedCount: 0,
+    changedCount: 0,
+    result: null,
+    error: null,
+  }
+}
+
+/**
+ * 比较两个标签数组 (顺序敏感)
+ */
+function sameArray(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i])
+}
+
+/**
+ * 标签规范化任务
+ * 将已有壁纸的 tags 重写为规范 slug (应用别名、去重,tags_zh 按位置同步),
+ * 并将标签翻译词典的原文标签合并为规范 slug (人工修正的翻译优先)
+ */
+export class TagNormalizerService {
+  private isRunning = false
+  private progress: TagNormalizeProgress = createIdleProgress()
+  private tagAliases = new TagAliasService()
+
+  /**
+   * 执行规范化
+   */
+  async normalize(options: TagNormalizeOptions): Promise<TagNormalizeResult> {
+    if (this.isRunning) {
+      throw new Error('已有标签规范化任务正在运行')
+    }
+
+    this.isRunning = true
+    this.progress = {
+      ...createIdleProgress(),
+      isRunning: true,
+      dryRun: options.dryRun,
+      startedAt: new Date().toISOString(),
+      result: this.progress.result,
+    }
+
+    try {
+      // 使用最新的别名
+      this.tagAliases.clearCache()
+      const aliases = await this.tagAliases.loadAliases()
+
+      const translationsMerged = await this.normalizeTranslations(aliases, options.dryRun)
+      const samples = await this.normalizeWallpapers(aliases, options.dryRun)
+
+      const result: TagNormalizeResult = {
+        dry_run: options.dryRun,
+        scanned_count: this.progress.scannedCount,
+        changed_count: this.progress.changedCount,
+        translations_merged: translationsMerged,
+        samples,
+      }
+
+      console.log(
+        `🏷️ 标签规范化${
+          options.dryRun ? ' (dry-run)' : ''
+        }完成: 扫描 ${result.scanned_count}, 变更 ${result.changed_count}, 词典合并 ${translationsMerged}`,
+      )
+
+      this.progress.result = result
+      return result
+    } catch (error) {
+      this.progress.error = error instanceof Error ? error.message : String(error)
+      throw error
+    } finally {
+      this.isRunning = false
+      this.progress = {
+        ...this.progress,
+        isRunning: false,
+        completedAt: new Date().toISOString(),
+      }
+    }
+  }
+
+  /**
+   * 查询当前 (或最近一次) 任务进度
+   */
+  getStatus(): TagNormalizeProgress {
+    return { ...this.progress }
+  }
+
+  /**
+   * 重写壁纸标签,返回变更示例
+   */
+  private async normalizeWallpapers(
+    aliases: Map<string, string>,
+    dryRun: boolean,
+  ): Promise<TagNormalizeChange[]> {
+    const samples: TagNormalizeChange[] = []
+    let cursor: string | null = null
+
+    while (true) {
+      let query = supabaseAdmin
+        .from('wallpapers')
+        .select('id, source_id, tags, tags_zh, locked_fields')
+
+      // 键集分页 (id 升序)
+      if (cursor) query = query.gt('id', cursor)
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .limit(CHUNK_SIZE)
+
+      if (error) {
+        throw new Error(`读取壁纸失败: ${error.message}`)
+      }
+
+      const targets = (data || []) as NormalizeTarget[]
+      const changed = targets
+        .map((target) => ({ target, update: this.normalizeRow(aliases, target) }))
+        .filter((item) => item.update !== null)
+
+      for (const { target, update } of changed) {
+        if (samples.length >= MAX_SAMPLES) break
+        samples.push({
+          id: target.id,
+          source_id: target.source_id,
+          before: target.tags || [],
+          after: update!.tags,
+        })
+      }
+
+      if (!dryRun) {
+        const { batchSize } = CRAWLER_CONFIG
+        for (let i = 0; i < changed.length; i += batchSize) {
+          await Promise.all(
+            changed.slice(i, i + batchSize).map(async ({ target, update }) => {
+              const { error } = await supabaseAdmin
+                .from('wallpapers')
+                .update(update!)
+                .eq('id', target.id)
+
+              if (error) {
+                throw new Error(`更新壁纸标签失败 ${target.source_id}: ${error.message}`)
+              }
+            }),
+          )
+        }
+      }
+
+      this.progress.scannedCount += targets.length
+      this.progress.changedCount += changed.length
+
+      if (targets.length < CHUNK_SIZE) break
+      cursor = targets[targets.length - 1].id
+    }
+
+    return samples
+  }
+
+  /**
+   * 计算单个壁纸的规范标签,无变化时返回 null
+   * tags_zh 与 tags 一一对应时按位置同步去重,否则保持不变 (降级内容);
+   * 人工锁定 tags 或 tags_zh 的壁纸保持不变 (单独改写其中一个会破坏对应关系)
+   */
+  private normalizeRow(
+    aliases: Map<string, string>,
+    target: NormalizeTarget,
+  ): { tags: string[]; tags_zh?: string[] } | null {
+    const locked = target.locked_fields || []
+    if (locked.includes('tags') || locked.includes('tags_zh')) return null
+
+    const tags = target.tags || []
+    const tagsZh = target.tags_zh || []
+    const aligned = tagsZh.length === tags.length
+
+    const nextTags: string[] = []
+    const nextTagsZh: string[] = []
+    tags.forEach((tag, i) => {
+      const [canonical] = canonicalizeWith(aliases, [tag])
+      if (!canonical || nextTags.includes(canonical)) return
+      nextTags.push(canonical)
+      if (aligned) nextTagsZh.push(tagsZh[i])
+    })
+
+    if (sameArray(tags, nextTags)) return null
+    return aligned ? { tags: nextTags, tags_zh: nextTagsZh } : { tags: nextTags }
+  }
+
+  /**
+   * 将词典条目合并到规范 slug,返回合并 / 改名的条目数
+   * 同一规范标签存在多个翻译时,人工修正优先,其次是已使用规范 slug 的条目
+   */
+  private async normalizeTranslations(
+    aliases: Map<string, string>,
+    dryRun: boolean,
+  ): Promise<number> {
+    const entries: TranslationEntry[] = []
+    for (let offset = 0;; offset += CHUNK_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('tag_translations')
+        .select('tag, label_zh, origin')
+        .order('tag', { ascending: true })
+        .range(offset, offset + CHUNK_SIZE - 1)
+
+      if (error) {
+        throw new Error(`读取标签翻译失败: ${error.message}`)
+      }
+
+      entries.push(...((data || []) as TranslationEntry[]))
+      if (!data || data.length < CHUNK_SIZE) break
+    }
+
+    // 按规范标签分组
+    const groups = new Map<string, TranslationEntry[]>()
+    for (const entry of entries) {
+      const canonical = resolveAlias(aliases, entry.tag)
+      if (!canonical) continue
+      groups.set(canonical, [...(groups.get(canonical) || []), entry])
+    }
+
+    let merged = 0
+    for (const [canonical, group] of groups) {
+      const stale = group.filter((entry) => entry.tag !== canonical)
+      if (stale.length === 0) continue
+      merged += stale.length
+      if (dryRun) continue
+
+      const rank = (entry: TranslationEntry) =>
+        (entry.origin === 'manual' ? 2 : 0) + (entry.tag === canonical ? 1 : 0)
+      const winner = group.reduce((best, entry) => rank(entry) > rank(best) ? entry : best)
+
+      const { error } = await supabaseAdmin
+        .from('tag_translations')
+        .upsert(
+          { tag: canonical, label_zh: winner.label_zh, origin: winner.origin },
+          { onConflict: 'tag' },
+        )
+
+      if (error) {
+        throw new Error(`合并标签翻译失败 ${canonical}: ${error.message}`)
+      }
+
+      const { error: deleteError } = await supabaseAdmin
+        .from('tag_translations')
+        .delete()
+        .in('tag', stale.map((entry) => entry.tag))
+
+      if (deleteError) {
+        throw new Error(`删除旧标签翻译失败 ${canonical}: ${deleteError.message}`)
+      }
+    }
+
+    return merged
+  }
+}
@@ -0,0 +1,82 @@
+import { supabase, supabaseAdmin } from '../../main.ts'
+
+/**
+ * 统计事件类型
+ */
+type TrackingEvent = 'view' | 'download'
+
+/**
+ * 去重窗口配置 (分钟)
+ */
+const DEDUP_MINUTES: Record<TrackingEvent, number> = {
+  view: 30, // 同一 IP 30 分钟内重复浏览只计一次
+  download: 60, // 同一 IP 60 分钟内重复下载只计一次
+}
+
+/**
+ * 事件保留天数 (趋势排序只读取近 7 天事件)
+ */
+const EVENT_RETENTION_DAYS = 14
+
+/**
+ * 浏览 / 下载统计服务
+ * 事件写入 wallpaper_events 并原子更新计数器,IP 仅以 SHA-256 摘要存储
+ */
+export class TrackingService {
+  /**
+   * 记录浏览
+   */
+  recordView(wallpaperId: string, ip: string): Promise<boolean> {
+    return this.record(wallpaperId, 'view', ip)
+  }
+
+  /**
+   * 记录下载
+   */
+  recordDownload(wallpaperId: string, ip: string): Promise<boolean> {
+    return this.record(wallpaperId, 'download', ip)
+  }
+
+  /**
+   * 删除超过保留天数的事件,返回删除数量 (计数器不受影响)
+   */
+  async cleanup(): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc('cleanup_wallpaper_events', {
+      p_retention_days: EVENT_RETENTION_DAYS,
+    })
+
+    if (error) {
+      throw new Error(`清理浏览 / 下载事件失败: ${error.message}`)
+    }
+
+    return (data as number) || 0
+  }
+
+  /**
+   * 记录事件,返回是否计数 (去重窗口内的重复事件返回 false)
+   */
+  private async record(wallpaperId: string, event: TrackingEvent, ip: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('record_wallpaper_event', {
+      p_wallpaper_id: wallpaperId,
+      p_event_type: event,
+      p_ip_hash: await this.hashIp(ip),
+      p_dedup_minutes: DEDUP_MINUTES[event],
+    })
+
+    if (error) {
+      throw new Error(`记录${event === 'view' ? '浏览' : '下载'}失败: ${error.message}`)
+    }
+
+    return data === true
+  }
+
+  /**
+   * IP 摘要 (SHA-256 十六进制)
+   */
+  private async hashIp(ip: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ip))
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('')
+  }
+}
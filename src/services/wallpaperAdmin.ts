@@ -0,0 +1,142 @@
+import { supabaseAdmin } from '../../main.ts'
+import { TagAliasService } from './tagAliases.ts'
+import { TagDictionaryService } from './tagDictionary.ts'
+import type {
+  AdminWallpaperDetail,
+  Wallpaper,
+  WallpaperLockableField,
+  WallpaperTranslation,
+  WallpaperUpdate,
+} from '../types/wallpaper.ts'
+
+/**
+ * 壁纸修改参数
+ */
+export interface WallpaperUpdateOptions {
+  lock: boolean // 修改的字段是否自动锁定
+  lockedFields?: WallpaperLockableField[] // 传入时替换锁定字段 (可用于解锁)
+}
+
+/**
+ * 壁纸管理服务
+ * 人工修改壁纸内容并记录锁定字段,爬取 / 刷新 / 补全时不再覆盖
+ */
+export class WallpaperAdminService {
+  private tagAliases = new TagAliasService()
+  private tagDictionary = new TagDictionaryService()
+
+  /**
+   * 查询壁纸详情 (含 inactive 壁纸和多语言翻译),不存在时返回 null
+   */
+  async get(id: string): Promise<AdminWallpaperDetail | null> {
+    const [wallpaperResult, translationsResult] = await Promise.all([
+      supabaseAdmin.from('wallpapers').select('*').eq('id', id).maybeSingle(),
+      supabaseAdmin
+        .from('wallpaper_translations')
+        .select('*')
+        .eq('wallpaper_id', id)
+        .order('locale', { ascending: true }),
+    ])
+
+    const error = wallpaperResult.error || translationsResult.error
+    if (error) {
+      throw new Error(`查询壁纸失败: ${error.message}`)
+    }
+
+    if (!wallpaperResult.data) return null
+
+    return {
+      ...(wallpaperResult.data as Wallpaper),
+      translations: (translationsResult.data || []) as WallpaperTranslation[],
+    }
+  }
+
+  /**
+   * 修改壁纸
+   * 标签规范化并应用别名;只修改标签时中文标签按原有翻译和词典重新对齐
+   * 调用方需保证 tags_zh 与 (修改后的) 标签数量一致
+   */
+  async update(
+    existing: Wallpaper,
+    update: WallpaperUpdate,
+    options: WallpaperUpdateOptions,
+  ): Promise<Wallpaper> {
+    const fields: Partial<Wallpaper> = { ...update }
+
+    if (update.tags) {
+      const tags = await this.canonicalizePairs(update.tags, update.tags_zh)
+      fields.tags = tags.map(([tag]) => tag)
+      fields.tags_zh = update.tags_zh
+        ? tags.map(([, labelZh]) => labelZh!)
+        : await this.alignTagsZh(fields.tags, existing.tags || [], existing.tags_zh || [])
+    }
+
+    const edited = Object.keys(update) as WallpaperLockableField[]
+    const locked: WallpaperLockableField[] = existing.locked_fields || []
+    fields.locked_fields = options.lockedFields ??
+      (options.lock ? [...new Set([...locked, ...edited])] : locked)
+
+    const { data, error } = await supabaseAdmin
+      .from('wallpapers')
+      .update(fields)
+      .eq('id', existing.id)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`更新壁纸失败: ${error.message}`)
+    }
+
+    return data as Wallpaper
+  }
+
+  /**
+   * 删除壁纸 (翻译和浏览 / 下载事件级联删除),不存在时返回 false
+   */
+  async remove(id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('wallpapers')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`删除壁纸失败: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * 标签规范化为 slug (去重,丢弃规范化后为空的标签),同时传入中文标签时保持一一对应
+   */
+  private async canonicalizePairs(
+    tags: string[],
+    tagsZh?: string[],
+  ): Promise<[string, string | undefined][]> {
+    const pairs = new Map<string, string | undefined>()
+    for (let i = 0; i < tags.length; i++) {
+      const tag = await this.tagAliases.resolve(tags[i])
+      if (tag && !pairs.has(tag)) pairs.set(tag, tagsZh?.[i])
+    }
+
+    return Array.from(pairs)
+  }
+
+  /**
+   * 为新标签生成对齐的中文标签: 原有翻译优先,其次词典,都没有时使用原文
+   */
+  private async alignTagsZh(
+    tags: string[],
+    previousTags: string[],
+    previousTagsZh: string[],
+  ): Promise<string[]> {
+    const previous = new Map<string, string>()
+    if (previousTags.length === previousTagsZh.length) {
+      previousTags.forEach((tag, i) => previous.set(tag, previousTagsZh[i]))
+    }
+
+    const known = await this.tagDictionary.lookup(tags.filter((tag) => !previous.has(tag)))
+    return tags.map((tag) => previous.get(tag) ?? known.get(tag) ?? tag)
+  }
+}
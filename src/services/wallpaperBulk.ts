@@ -0,0 +1,238 @@
+import { supabaseAdmin } from '../../main.ts'
+import { TagAliasService } from './tagAliases.ts'
+import { TagDictionaryService } from './tagDictionary.ts'
+import type {
+  BulkAction,
+  BulkFilter,
+  BulkOperationStatus,
+  BulkPreview,
+  BulkResult,
+} from '../types/bulk.ts'
+import { toArrayLiteral } from '../utils/postgrest.ts'
+
+// 单次批量操作最多影响的壁纸数
+export const MAX_BULK_SIZE = 5000
+
+// re_enrich 单次最多提交的壁纸数 (与补全任务的 limit 上限一致)
+export const MAX_BULK_ENRICH_SIZE = 2000
+
+// 分页读取匹配 ID 的每页行数
+const PAGE_SIZE = 1000
+
+// 每次批量更新的壁纸数
+const CHUNK_SIZE = 500
+
+// dry-run 返回的示例 ID 数
+const SAMPLE_SIZE = 10
+
+/**
+ * 展开别名后的筛选条件
+ */
+interface ResolvedFilter extends BulkFilter {
+  searchQuery?: string // 追加规范标签短语后的搜索词
+  tagVariants?: string[][] // 每个过滤标签的原始写法、规范标签及其别名
+}
+
+/**
+ * 审计日志字段
+ */
+export interface BulkOperationRecord {
+  action: BulkAction
+  status: BulkOperationStatus
+  filter: BulkFilter
+  tag?: string
+  matched_count: number
+  affected_count: number
+  wallpaper_ids: string[]
+  error_message?: string
+}
+
+/**
+ * 壁纸批量操作服务
+ * 按筛选条件匹配壁纸 (含 inactive),分批执行上下线 / 增删标签 / 删除,每次执行写入审计日志
+ */
+export class WallpaperBulkService {
+  private tagAliases = new TagAliasService()
+  private tagDictionary = new TagDictionaryService()
+
+  /**
+   * 预览匹配的壁纸数量和示例 ID
+   */
+  async preview(filter: BulkFilter): Promise<BulkPreview> {
+    const resolved = await this.resolveFilter(filter)
+    const { data, error, count } = await this.buildQuery(resolved, { count: 'exact' })
+      .order('crawled_at', { ascending: false })
+      .limit(SAMPLE_SIZE)
+
+    if (error) {
+      throw new Error(`查询匹配壁纸失败: ${error.message}`)
+    }
+
+    return {
+      matched_count: count || 0,
+      sample_ids: (data || []).map((row) => row.id),
+    }
+  }
+
+  /**
+   * 读取匹配的全部壁纸 ID (按 ID 翻页,最多 limit 个)
+   */
+  async matchIds(filter: BulkFilter, limit = MAX_BULK_SIZE): Promise<string[]> {
+    const resolved = await this.resolveFilter(filter)
+    const ids: string[] = []
+
+    while (ids.length < limit) {
+      let query = this.buildQuery(resolved)
+      if (ids.length > 0) query = query.gt('id', ids[ids.length - 1])
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .limit(Math.min(PAGE_SIZE, limit - ids.length))
+
+      if (error) {
+        throw new Error(`读取匹配壁纸失败: ${error.message}`)
+      }
+
+      ids.push(...(data || []).map((row) => row.id))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return ids
+  }
+
+  /**
+   * 执行批量操作 (re_enrich 由爬虫补全任务执行,不在此处理)
+   * @param tag add_tag / remove_tag 的规范标签
+   */
+  async execute(
+    action: Exclude<BulkAction, 're_enrich'>,
+    filter: BulkFilter,
+    tag?: string,
+  ): Promise<BulkResult> {
+    const ids = await this.matchIds(filter)
+    const tagZh = action === 'add_tag' && tag
+      ? (await this.tagDictionary.lookup([tag])).get(tag)
+      : undefined
+
+    const record = { action, filter, tag, matched_count: ids.length, wallpaper_ids: ids }
+    let affected = 0
+
+    try {
+      for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+        const { data, error } = await supabaseAdmin.rpc('bulk_update_wallpapers', {
+          p_ids: ids.slice(i, i + CHUNK_SIZE),
+          p_action: action,
+          p_tag: tag ?? null,
+          p_tag_zh: tagZh ?? null,
+        })
+
+        if (error) {
+          throw new Error(`批量操作失败: ${error.message}`)
+        }
+        affected += (data as number) || 0
+      }
+    } catch (error) {
+      await this.record({
+        ...record,
+        status: 'failed',
+        affected_count: affected,
+        error_message: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+
+    const operationId = await this.record({
+      ...record,
+      status: 'success',
+      affected_count: affected,
+    })
+
+    return { operation_id: operationId, matched_count: ids.length, affected_count: affected }
+  }
+
+  /**
+   * 写入审计日志,返回日志 ID (写入失败时返回 null,不影响操作结果)
+   * pending 记录在异步任务结束后由 complete 回写结果
+   */
+  async record(entry: BulkOperationRecord): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('wallpaper_bulk_operations')
+      .insert({
+        ...entry,
+        completed_at: entry.status === 'pending' ? null : new Date().toISOString(),
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('写入批量操作日志失败:', error)
+      return null
+    }
+
+    return data.id
+  }
+
+  /**
+   * 回写异步任务 (re_enrich) 的结果 (写入失败时只记录错误)
+   */
+  async complete(
+    id: string,
+    result: {
+      status: Exclude<BulkOperationStatus, 'pending'>
+      affected_count: number
+      crawl_log_id: string | null
+      error_message?: string
+    },
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('wallpaper_bulk_operations')
+      .update({ ...result, completed_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      console.error('更新批量操作日志失败:', error)
+    }
+  }
+
+  /**
+   * 展开搜索词和过滤标签中的别名
+   */
+  private async resolveFilter(filter: BulkFilter): Promise<ResolvedFilter> {
+    return {
+      ...filter,
+      searchQuery: filter.search ? await this.tagAliases.expandSearch(filter.search) : undefined,
+      tagVariants: filter.tags ? await this.tagAliases.expand(filter.tags) : undefined,
+    }
+  }
+
+  /**
+   * 构建匹配壁纸 ID 的查询
+   */
+  private buildQuery(filter: ResolvedFilter, options?: { count: 'exact' }) {
+    let query = supabaseAdmin.from('wallpapers').select('id', options)
+
+    if (filter.ids) query = query.in('id', filter.ids)
+    if (filter.status !== 'all') query = query.eq('status', filter.status)
+    if (filter.category) query = query.eq('category', filter.category)
+    if (filter.source) query = query.eq('source', filter.source)
+    if (filter.crawled_from) query = query.gte('crawled_at', filter.crawled_from)
+    if (filter.crawled_to) query = query.lt('crawled_at', filter.crawled_to)
+
+    if (filter.searchQuery) {
+      query = query.textSearch('search_vector', filter.searchQuery, {
+        type: 'websearch',
+        config: 'simple',
+      })
+    }
+
+    // 与列表接口相同: 每个标签匹配原文标签 (含别名) 或中文标签
+    filter.tags?.forEach((tag, i) => {
+      const variants = filter.tagVariants?.[i] ?? [tag]
+      query = query.or(
+        `tags.ov.${toArrayLiteral(variants)},tags_zh.cs.${toArrayLiteral([tag])}`,
+      )
+    })
+
+    return query
+  }
+}
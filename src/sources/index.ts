@@ -0,0 +1,34 @@
+import { MoewallsSource } from './moewalls.ts'
+import type { WallpaperSource } from './types.ts'
+
+export { WallpaperRemovedError } from './types.ts'
+export type { WallpaperSource } from './types.ts'
+
+// 默认来源
+export const DEFAULT_SOURCE = 'moewalls'
+
+// 已注册的来源适配器
+const sources = new Map<string, WallpaperSource>()
+
+/**
+ * 注册来源适配器 (同名覆盖)
+ */
+export function registerSource(source: WallpaperSource): void {
+  sources.set(source.name, source)
+}
+
+/**
+ * 获取来源适配器
+ */
+export function getSource(name: string): WallpaperSource | undefined {
+  return sources.get(name)
+}
+
+/**
+ * 列出所有已注册的来源
+ */
+export function listSources(): WallpaperSource[] {
+  return Array.from(sources.values())
+}
+
+registerSource(new MoewallsSource())
@@ -0,0 +1,119 @@
+import * as cheerio from 'https://esm.sh/cheerio@1.0.0-rc.12'
+import type { RawWallpaperData } from '../types/wallpaper.ts'
+import { parseResolution } from '../utils/validation.ts'
+import { WallpaperRemovedError } from './types.ts'
+import type { WallpaperSource } from './types.ts'
+
+/**
+ * moewalls.com 来源适配器
+ */
+export class MoewallsSource implements WallpaperSource {
+  readonly name = 'moewalls'
+  readonly baseUrl = 'https://moewalls.com'
+
+  listPageUrl(page: number): string {
+    return `${this.baseUrl}/page/${page}/`
+  }
+
+  parseListPage(html: string): string[] {
+    const $ = cheerio.load(html)
+
+    // 提取所有壁纸详情页链接
+    const urls: string[] = []
+    $('article.entry-tpl-grid .entry-featured-media a').each((_, el) => {
+      const href = $(el).attr('href')
+      if (
+        href && href.includes('moewalls.com/') && !href.includes('/page/') &&
+        !href.includes('/category/') && !href.includes('/resolution/')
+      ) {
+        urls.push(href)
+      }
+    })
+
+    // 释放 Cheerio 占用的内存
+    // @ts-ignore - Cheerio 内部清理
+    $.root().empty()
+
+    return urls
+  }
+
+  parseDetailPage(html: string, url: string): RawWallpaperData {
+    const $ = cheerio.load(html)
+
+    // 提取壁纸 ID (从 URL 的最后一段提取)
+    const id = this.extractId(url) || crypto.randomUUID()
+
+    // 提取标题
+    const name = $('h1.entry-title').text().trim() || 'Untitled'
+
+    // 提取封面图
+    let cover_url = $('video').attr('poster') || ''
+    if (!cover_url) {
+      cover_url = $('.entry-featured-media img').first().attr('src') || ''
+    }
+    if (cover_url && cover_url.startsWith('/')) {
+      cover_url = `${this.baseUrl}${cover_url}`
+    }
+
+    // 提取预览视频
+    let preview_url = $('video source[src*=".webm"]').attr('src') || ''
+    if (!preview_url) {
+      preview_url = $('video source').first().attr('src') || ''
+    }
+    if (preview_url && preview_url.startsWith('/')) {
+      preview_url = `${this.baseUrl}${preview_url}`
+    }
+
+    // 提取下载链接
+    const downloadBtn = $('button#moe-download')
+    const dataUrl = downloadBtn.attr('data-url')
+    if (!dataUrl) {
+      throw new WallpaperRemovedError(`未找到下载链接: ${url}`)
+    }
+    const video_url = `https://go.moewalls.com/download.php?video=${dataUrl}`
+
+    // 提取标签
+    const tags: string[] = []
+    $('.tag-items a, .entry-tags a').each((_, el) => {
+      const tag = $(el).text().trim()
+      if (tag) tags.push(tag)
+    })
+
+    // 提取分类 (取 /category/{slug}/ 中的 slug)
+    const categoryHref = $('a[rel="category tag"][href*="/category/"]').first().attr('href')
+    const category = categoryHref?.match(/\/category\/([^/]+)/)?.[1]?.toLowerCase() || null
+
+    // 提取分辨率 (仅壁纸自身的 rel="tag" 链接,排除导航菜单)
+    const resolutions: string[] = []
+    $('a[rel="tag"][href*="/resolution/"]').each((_, el) => {
+      const parsed = parseResolution($(el).text()) || parseResolution($(el).attr('href') || '')
+      if (!parsed) return
+      const resolution = `${parsed.width}x${parsed.height}`
+      if (!resolutions.includes(resolution)) resolutions.push(resolution)
+    })
+
+    // 释放 Cheerio 占用的内存
+    // @ts-ignore - Cheerio 内部清理
+    $.root().empty()
+
+    return {
+      id,
+      name,
+      cover_url,
+      preview_url,
+      video_url,
+      tags,
+      category,
+      resolutions,
+    }
+  }
+
+  extractId(url: string): string {
+    const urlParts = url.replace(/\/$/, '').split('/')
+    return urlParts[urlParts.length - 1]
+  }
+
+  detailPageUrl(sourceId: string, category: string | null): string {
+    return category ? `${this.baseUrl}/${category}/${sourceId}/` : `${this.baseUrl}/${sourceId}/`
+  }
+}
@@ -0,0 +1,48 @@
+import type { RawWallpaperData } from '../types/wallpaper.ts'
+
+/**
+ * 壁纸在来源中已不可用 (如下载按钮被移除),刷新时据此下线壁纸
+ */
+export class WallpaperRemovedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WallpaperRemovedError'
+  }
+}
+
+/**
+ * 壁纸来源适配器
+ * 只负责站点相关的 URL 规则与 HTML 解析;请求、重试、并发、AI 处理由 CrawlerService 统一完成
+ */
+export interface WallpaperSource {
+  /** 来源标识 (写入 wallpapers.source,如 moewalls) */
+  readonly name: string
+
+  /** 站点根地址 (用于日志展示) */
+  readonly baseUrl: string
+
+  /**
+   * 列表页地址 (page 从 1 开始)
+   */
+  listPageUrl(page: number): string
+
+  /**
+   * 解析列表页,返回详情页 URL 列表
+   */
+  parseListPage(html: string): string[]
+
+  /**
+   * 解析详情页,缺少必要数据时抛出错误 (下载链接已移除时抛出 WallpaperRemovedError)
+   */
+  parseDetailPage(html: string, url: string): RawWallpaperData
+
+  /**
+   * 从详情页 URL 提取来源内的壁纸 ID (写入 wallpapers.source_id)
+   */
+  extractId(url: string): string
+
+  /**
+   * 根据来源内 ID 推导详情页地址 (用于刷新未记录 source_url 的旧数据)
+   */
+  detailPageUrl(sourceId: string, category: string | null): string
+}
@@ -0,0 +1,52 @@
+// 批量操作类型
+export type BulkAction =
+  | 'activate'
+  | 'deactivate'
+  | 'add_tag'
+  | 'remove_tag'
+  | 're_enrich'
+  | 'delete'
+
+// 批量操作状态 (pending = 异步任务执行中,仅 re_enrich)
+export type BulkOperationStatus = 'pending' | 'success' | 'failed'
+
+// 批量操作筛选条件 (多个条件同时满足)
+export interface BulkFilter {
+  ids?: string[]
+  search?: string // 全文搜索 (与列表接口相同)
+  tags?: string[] // 全部匹配 (原文标签含别名,或中文标签)
+  status: 'active' | 'inactive' | 'all'
+  category?: string
+  source?: string
+  crawled_from?: string // 爬取时间下限 (含)
+  crawled_to?: string // 爬取时间上限 (不含)
+}
+
+// 批量操作预览 (dry-run)
+export interface BulkPreview {
+  matched_count: number
+  sample_ids: string[]
+}
+
+// 批量操作结果
+export interface BulkResult {
+  operation_id: string | null // 审计日志 ID (记录失败时为 null)
+  matched_count: number
+  affected_count: number
+}
+
+// 批量操作审计日志 (对应 wallpaper_bulk_operations 表)
+export interface BulkOperationLog {
+  id: string
+  action: BulkAction
+  status: BulkOperationStatus
+  filter: BulkFilter
+  tag: string | null
+  matched_count: number
+  affected_count: number
+  wallpaper_ids: string[]
+  crawl_log_id: string | null // re_enrich 对应的补全任务日志
+  error_message: string | null
+  created_at: string
+  completed_at: string | null // 异步任务结束时间
+}
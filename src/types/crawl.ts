@@ -0,0 +1,120 @@
+// 爬取模式: incremental = 遇到整页已入库即停止翻页, full = 遍历全部列表页
+export type CrawlMode = 'incremental' | 'full'
+
+// 爬取任务模式: 在爬取模式基础上增加 retry = 仅重试失败的 URL, refresh = 刷新已入库壁纸,
+// enrich = 补全缺失的 AI 内容
+export type CrawlRunMode = CrawlMode | 'retry' | 'refresh' | 'enrich'
+
+// 爬取日志 (对应 crawl_logs 表)
+export interface CrawlLog {
+  id: string
+  status: 'success' | 'failed' | 'partial'
+  mode: CrawlRunMode
+  source: string
+  wallpapers_count: number
+  new_count: number
+  updated_count: number
+  skipped_count: number
+  failed_count: number
+  deactivated_count: number // 来源已删除而下线的壁纸数
+  aborted: boolean
+  last_page: number // 已扫描到的列表页 (检查点)
+  collection_completed: boolean // URL 收集阶段是否已完成
+  resume_count: number // 恢复运行次数
+  ai_requests: number // AI 请求次数
+  ai_prompt_tokens: number
+  ai_completion_tokens: number
+  ai_total_tokens: number
+  ai_budget_exhausted: boolean // 是否因超出 AI 预算而改用降级策略
+  error_message: string | null
+  started_at: string
+  completed_at: string | null
+}
+
+// 爬取日志详情
+export interface CrawlLogDetail extends CrawlLog {
+  duration_ms: number | null // 运行时长 (未完成时为 null)
+  is_finished: boolean
+}
+
+// 爬取结果
+export interface CrawlResult {
+  new_count: number
+  updated_count: number
+  failed_count: number
+}
+
+// 检查点队列中单个 URL 的状态
+export type CrawlQueueStatus = 'pending' | 'done' | 'failed'
+
+// 失败阶段: fetch = 请求详情页, parse = 解析详情页, ai = AI 内容生成, db = 数据库写入
+export type CrawlFailureStage = 'fetch' | 'parse' | 'ai' | 'db'
+
+// URL 失败记录 (对应 crawl_failures 表)
+export interface CrawlFailure {
+  id: number
+  crawl_log_id: string | null // 最近一次失败的爬取任务
+  source: string
+  source_id: string
+  url: string
+  stage: CrawlFailureStage
+  error_message: string
+  attempts: number // 累计失败次数
+  resolved_at: string | null // 之后处理成功的时间
+  created_at: string
+  updated_at: string
+}
+
+// 爬取统计
+export interface CrawlStats {
+  newCount: number
+  updatedCount: number
+  failedCount: number
+  skippedCount: number
+  deactivatedCount: number
+}
+
+// 单次任务的 AI 用量
+export interface CrawlAIUsage {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  budgetExhausted: boolean // 超出预算后不再请求 AI
+}
+
+// 爬取阶段: idle = 空闲, collecting = 收集 URL, processing = 批量处理, finished = 已结束
+export type CrawlPhase = 'idle' | 'collecting' | 'processing' | 'finished'
+
+// 实时爬取进度
+export interface CrawlProgress {
+  isRunning: boolean
+  mode: CrawlRunMode | null
+  source: string | null
+  phase: CrawlPhase
+  logId: string | null
+  startedAt: string | null
+  pagesScanned: number // 已扫描列表页数
+  urlsCollected: number // 已收集的新 URL 数
+  currentBatch: number
+  totalBatches: number
+  processedCount: number // 已处理 URL 数 (含失败)
+  stats: CrawlStats
+  aiUsage: CrawlAIUsage
+  etaSeconds: number | null // 预计剩余秒数 (仅处理阶段可估算)
+}
+
+// 单个壁纸处理结果
+export interface CrawlItemResult {
+  url: string
+  source_id: string
+  result: 'new' | 'updated' | 'failed' | 'deactivated'
+  error?: string
+  stage?: CrawlFailureStage
+}
+
+// 爬取事件 (SSE 推送)
+export type CrawlEvent =
+  | { type: 'progress'; data: CrawlProgress }
+  | { type: 'wallpaper'; data: CrawlItemResult }
+  | { type: 'finished'; data: CrawlProgress }
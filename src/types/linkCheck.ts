@@ -0,0 +1,54 @@
+// 需要检查的媒体链接字段
+export type MediaField = 'cover_url' | 'preview_url' | 'video_url'
+
+// 单个媒体链接检查结果
+export interface MediaCheckResult {
+  status: number | null // HTTP 状态码 (网络错误 / 超时为 null)
+  content_type: string | null
+  content_length: number | null
+  ok: boolean
+  error?: string
+}
+
+// 壁纸的媒体链接检查结果 (对应 wallpapers.media_check)
+export type MediaCheck = Partial<Record<MediaField, MediaCheckResult>>
+
+// 变更类型: broken = 出现不可用链接, deactivated = 连续失败达到阈值而下线, recovered = 恢复正常
+export type LinkCheckChangeType = 'broken' | 'deactivated' | 'recovered'
+
+// 单个壁纸的检查变更
+export interface LinkCheckChange {
+  id: string
+  source_id: string
+  name: string
+  change: LinkCheckChangeType
+  broken_fields: MediaField[]
+  failures: number // 连续失败次数
+}
+
+// 链接检查日志 (对应 link_check_logs 表)
+export interface LinkCheckLog {
+  id: string
+  status: 'success' | 'failed'
+  checked_count: number
+  broken_count: number
+  deactivated_count: number
+  recovered_count: number
+  changes: LinkCheckChange[]
+  aborted: boolean // 是否被手动终止
+  error_message: string | null
+  started_at: string
+  completed_at: string | null
+}
+
+// 链接检查进度
+export interface LinkCheckProgress {
+  isRunning: boolean
+  logId: string | null
+  startedAt: string | null
+  total: number // 本次待检查的壁纸数
+  checkedCount: number
+  brokenCount: number
+  deactivatedCount: number
+  recoveredCount: number
+}
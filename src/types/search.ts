@@ -0,0 +1,9 @@
+// 搜索建议类型: name = 壁纸名称, tag = 原文标签, tag_zh = 中文标签
+export type SuggestionType = 'name' | 'tag' | 'tag_zh'
+
+// 搜索建议
+export interface SearchSuggestion {
+  type: SuggestionType
+  value: string // 建议的搜索词
+  label: string | null // 对照文本 (名称 / 原文标签为中文,中文标签为原文标签)
+}
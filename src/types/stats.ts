@@ -0,0 +1,34 @@
+import type { TagStat } from './tag.ts'
+
+// 壁纸数据集统计 (对应 admin_wallpaper_stats 函数)
+export interface WallpaperStats {
+  total: number
+  active: number
+  inactive: number
+  total_views: number
+  total_downloads: number
+  missing: {
+    name_zh: number // 缺失中文名称的百分比
+    tags_zh: number // 缺失中文标签的百分比
+    description: number // 缺失 AI 描述 (空或降级格式) 的百分比
+  }
+  daily: { date: string; count: number }[] // 最近 N 天每日新增
+}
+
+// 最近爬取任务统计
+export interface CrawlRunStats {
+  last_success_at: string | null
+  recent_runs: number
+  success: number
+  partial: number
+  failed: number
+  success_ratio: number // 成功率 (0-1),无记录时为 0
+}
+
+// 管理统计响应
+export interface AdminStats {
+  wallpapers: WallpaperStats
+  top_tags: TagStat[]
+  crawl: CrawlRunStats
+  is_crawling: boolean
+}
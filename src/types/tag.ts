@@ -0,0 +1,77 @@
+import type { PaginationMeta } from './wallpaper.ts'
+
+// 标签统计 (对应 tag_stats 视图)
+export interface TagStat {
+  name: string // 原文标签
+  name_zh: string | null // 中文翻译
+  count: number // 使用该标签的 active 壁纸数
+}
+
+// 标签排序方式: count = 按使用次数倒序, name = 按名称升序
+export type TagSort = 'count' | 'name'
+
+// 查询参数类型
+export interface TagQueryParams {
+  page?: number
+  limit?: number
+  search?: string // 前缀搜索,同时匹配原文和中文
+  sort?: TagSort
+}
+
+export interface TagListResponse {
+  items: TagStat[]
+  pagination: PaginationMeta
+}
+
+// 标签翻译来源: ai = AI 翻译, manual = 人工修正 (AI 不会覆盖)
+export type TagTranslationOrigin = 'ai' | 'manual'
+
+// 标签翻译 (对应 tag_translations 表)
+export interface TagTranslation {
+  tag: string // 原文标签
+  label_zh: string // 规范中文翻译
+  origin: TagTranslationOrigin
+  created_at: string
+  updated_at: string
+}
+
+// 标签翻译及使用次数 (对应 tag_translation_stats 视图)
+export interface TagTranslationStat extends TagTranslation {
+  count: number // 使用该标签的 active 壁纸数
+}
+
+// 标签别名 (对应 tag_aliases 表)
+export interface TagAlias {
+  alias: string // 别名 slug
+  tag: string // 规范标签 slug
+  created_at: string
+}
+
+// 单个壁纸的标签规范化变更
+export interface TagNormalizeChange {
+  id: string
+  source_id: string
+  before: string[]
+  after: string[]
+}
+
+// 标签规范化结果
+export interface TagNormalizeResult {
+  dry_run: boolean
+  scanned_count: number // 扫描的壁纸数
+  changed_count: number // 标签有变化的壁纸数
+  translations_merged: number // 合并 / 改名的词典条目数
+  samples: TagNormalizeChange[] // 变更示例
+}
+
+// 标签规范化进度
+export interface TagNormalizeProgress {
+  isRunning: boolean
+  dryRun: boolean
+  startedAt: string | null
+  completedAt: string | null
+  scannedCount: number
+  changedCount: number
+  result: TagNormalizeResult | null // 最近一次完成的结果
+  error: string | null
+}
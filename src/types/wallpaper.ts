@@ -1,21 +1,51 @@
+import type { MediaCheck } from './linkCheck.ts'
+
+// 可锁定的字段 (人工修改后自动任务不再覆盖)
+export type WallpaperLockableField = 'name_zh' | 'description' | 'tags' | 'tags_zh' | 'status'
+
 // 壁纸类型定义
 export interface Wallpaper {
   id: string
-  moewalls_id: string
+  source: string // 来源标识 (如 moewalls)
+  source_id: string // 来源内的壁纸 ID
+  moewalls_id: string | null // 已废弃,使用 source + source_id (仅 moewalls 来源写入)
+  source_url?: string | null // 来源详情页地址
   name: string
   name_zh?: string | null // 名称中文翻译
   description: string | null
+  ai_prompt_version?: string | null // 生成 AI 内容时的提示词版本 (降级内容为 null)
+  ai_model?: string | null // 生成 AI 内容的模型
   cover_url: string
   preview_url: string
   video_url: string
   status: 'active' | 'inactive'
   tags: string[] // 标签数组(原文)
   tags_zh?: string[] | null // 标签数组(中文翻译)
+  category?: string | null // 分类 slug
+  resolutions?: string[] // 支持的分辨率 (如 3840x2160)
+  max_width?: number | null // 最大分辨率宽度
+  max_height?: number | null // 最大分辨率高度
+  view_count?: number // 浏览量 (按 IP 去重)
+  download_count?: number // 下载量 (按 IP 去重)
+  media_checked_at?: string | null // 最近一次媒体链接检查时间
+  media_check?: MediaCheck | null // 各媒体链接检查结果
+  media_failures?: number // 连续检查失败次数
+  locked_fields?: WallpaperLockableField[] // 人工修改后锁定的字段
   crawled_at: string
   created_at: string
   updated_at: string
 }
 
+// 搜索高亮片段 (命中词以 <mark> 标记)
+export interface WallpaperHighlight {
+  name: string
+  name_zh: string | null
+  description: string | null
+}
+
+// 搜索模式: fulltext = 全文搜索, fuzzy = 名称模糊搜索 (全文搜索无结果时回退)
+export type SearchMode = 'fulltext' | 'fuzzy'
+
 // API 响应类型
 export interface PaginationMeta {
   page: number
@@ -24,24 +54,111 @@ export interface PaginationMeta {
   totalPages: number
 }
 
+// 本地化内容 (通过 lang 参数或 Accept-Language 指定语言时返回,缺失的翻译回退到原文)
+export interface LocalizedContent {
+  locale: string
+  name: string
+  description: string | null
+  tags: string[] // 与 tags 按位置一一对应
+}
+
+// 壁纸多语言翻译 (对应 wallpaper_translations 表)
+export interface WallpaperTranslation {
+  wallpaper_id: string
+  locale: string
+  name: string
+  description: string | null
+  tags: string[]
+  ai_prompt_version: string | null
+  ai_model: string | null
+  stale: boolean // 标签变化后待重新翻译
+  created_at: string
+  updated_at: string
+}
+
+export interface WallpaperListItem extends Wallpaper {
+  highlight?: WallpaperHighlight
+  localized?: LocalizedContent
+}
+
 export interface WallpaperListResponse {
-  items: Wallpaper[]
+  items: WallpaperListItem[]
   pagination: PaginationMeta
+  searchMode?: SearchMode
 }
 
-// 查询参数类型 (仅支持 search)
+// 排序方式
+export type WallpaperSort = 'latest' | 'name' | 'relevance' | 'popular' | 'trending'
+
+// 标签匹配方式: all = 全部匹配 (AND), any = 任一匹配 (OR)
+export type TagMatchMode = 'all' | 'any'
+
+// 查询参数类型
 export interface WallpaperQueryParams {
   page?: number
   limit?: number
   search?: string
+  sort?: WallpaperSort
+  tags?: string // 逗号分隔,同时匹配 tags 与 tags_zh
+  tags_mode?: TagMatchMode
+  highlight?: boolean // 搜索时返回高亮片段
+  category?: string
+  resolution?: string // 精确匹配分辨率 (如 1920x1080)
+  min_resolution?: string // 不低于该分辨率 (如 2560x1440)
 }
 
-// 爬取到的原始数据
-export interface MoewallsRawData {
-  id: string
+// 随机壁纸查询参数 (同时支持列表的 search / tags / category / resolution 过滤)
+export interface RandomWallpaperQueryParams {
+  page?: number
+  limit?: number
+  seed?: string // 相同种子返回相同顺序,用于稳定分页
+  search?: string
+}
+
+export interface RandomWallpaperResponse {
+  items: Wallpaper[]
+  seed: string
+  pagination: PaginationMeta
+}
+
+// 分辨率
+export interface Resolution {
+  width: number
+  height: number
+}
+
+// 校验后的列表过滤条件
+export interface WallpaperFilters {
+  tags?: string[]
+  tagVariants?: string[][] // 每个标签的全部写法 (规范标签 + 别名),由 TagAliasService 展开
+  tagsMode: TagMatchMode
+  category?: string
+  resolution?: string
+  minResolution?: Resolution
+}
+
+// 爬取到的原始数据 (由来源适配器解析)
+export interface RawWallpaperData {
+  id: string // 来源内的壁纸 ID
   name: string
   cover_url: string
   preview_url: string
   video_url: string
   tags: string[]
+  category: string | null
+  resolutions: string[]
+}
+
+// 管理端壁纸修改 (未传入的字段保持不变)
+export interface WallpaperUpdate {
+  name_zh?: string
+  description?: string
+  tags?: string[]
+  tags_zh?: string[]
+  status?: 'active' | 'inactive'
+}
+
+// 管理端壁纸详情 (含多语言翻译)
+export interface AdminWallpaperDetail extends Wallpaper {
+  translations: WallpaperTranslation[]
 }
@@ -0,0 +1,287 @@
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { HAN_PATTERN } from './locale.ts'
+
+/**
+ * 提示词版本 (修改提示词或校验规则时递增,用于按版本重新补全)
+ */
+export const PROMPT_VERSION = 'v3'
+
+/**
+ * 多语言翻译提示词版本
+ */
+export const TRANSLATION_PROMPT_VERSION = 'v1'
+
+// 字段长度上限
+const MAX_NAME_ZH_LENGTH = 50
+const MAX_DESCRIPTION_LENGTH = 300
+const MIN_DESCRIPTION_LENGTH = 10
+const MAX_TAG_ZH_LENGTH = 20
+
+// 目标语言名称 (用于提示词,未列出的语言直接使用语言代码)
+const LOCALE_NAMES: Record<string, string> = {
+  ja: '日语',
+  ko: '韩语',
+  fr: '法语',
+  de: '德语',
+  es: '西班牙语',
+  'pt-br': '巴西葡萄牙语',
+  ru: '俄语',
+  vi: '越南语',
+  th: '泰语',
+}
+
+// 目标语言的文字 (翻译结果必须包含,用于识别未翻译的内容);日语必须包含假名,避免中文结果被当作日语
+const LOCALE_SCRIPTS: Record<string, RegExp> = {
+  ja: /[\u3040-\u30ff]/,
+  ko: /[\uac00-\ud7af]/,
+  ru: /[\u0400-\u04ff]/,
+  th: /[\u0e00-\u0e7f]/,
+}
+
+// 名称较短,可能只由汉字组成 (如 "夜桜"),日语名称允许假名或汉字;描述仍须包含假名
+const LOCALE_NAME_SCRIPTS: Record<string, RegExp> = {
+  ja: /[\u3040-\u30ff\u3400-\u9fff]/,
+}
+
+/**
+ * AI 生成内容 (已通过校验)
+ */
+export interface AIContent {
+  name_zh: string
+  description: string
+  tags_zh: string[]
+}
+
+/**
+ * 多语言翻译内容 (已通过校验)
+ */
+export interface TranslationContent {
+  name: string
+  description: string
+  tags: string[]
+}
+
+/**
+ * 校验结果
+ */
+export type ParseResult<T> = { success: true; data: T } | { success: false; issues: string[] }
+
+/**
+ * 翻译参考信息
+ */
+export interface TranslationSource {
+  name: string
+  name_zh: string | null
+  description: string | null
+  tags: string[]
+}
+
+/**
+ * AI 返回的 JSON 结构
+ */
+const aiContentSchema = z.object({
+  name_zh: z.string().trim().min(1).max(MAX_NAME_ZH_LENGTH),
+  description: z.string().trim().min(MIN_DESCRIPTION_LENGTH).max(MAX_DESCRIPTION_LENGTH),
+  tags_zh: z.array(z.string().trim().min(1).max(MAX_TAG_ZH_LENGTH)),
+})
+
+/**
+ * 翻译返回的 JSON 结构
+ */
+const translationSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_NAME_ZH_LENGTH * 2),
+  description: z.string().trim().min(MIN_DESCRIPTION_LENGTH).max(MAX_DESCRIPTION_LENGTH * 2),
+  tags: z.array(z.string().trim().min(1).max(MAX_TAG_ZH_LENGTH * 2)),
+})
+
+/**
+ * 系统提示词
+ */
+export const SYSTEM_PROMPT =
+  '你是一个专业的壁纸描述生成助手。请根据壁纸信息生成中文内容，以 JSON 格式返回（不要包含 markdown 代码块标记）。'
+
+/**
+ * 生成用户提示词
+ * @param tags 全部标签 (用于生成标题和描述)
+ * @param pendingTags 需要翻译的标签 (标签词典未收录的)
+ */
+export function buildUserPrompt(name: string, tags: string[], pendingTags: string[]): string {
+  return `原始标题: ${name}
+标签: ${JSON.stringify(tags)}
+需要翻译的标签 (共 ${pendingTags.length} 个): ${JSON.stringify(pendingTags)}
+
+请返回 JSON 格式：
+{
+  "name_zh": "中文标题翻译",
+  "description": "面向搜索的生动描述，突出壁纸特点和视觉效果。",
+  "tags_zh": ["中文标签1", "中文标签2", ...]
+}
+
+要求：
+1. name_zh: 简洁优雅的中文标题 (不超过 ${MAX_NAME_ZH_LENGTH} 字)
+2. description: 生动形象的中文描述，吸引用户 (${MIN_DESCRIPTION_LENGTH}-${MAX_DESCRIPTION_LENGTH} 字)
+3. tags_zh: 按原顺序逐一翻译需要翻译的标签，数量必须一致 (${pendingTags.length} 个)，每个不超过 ${MAX_TAG_ZH_LENGTH} 字；没有需要翻译的标签时返回空数组`
+}
+
+/**
+ * 翻译系统提示词
+ */
+export const TRANSLATION_SYSTEM_PROMPT =
+  '你是一个专业的壁纸本地化翻译助手。请将壁纸信息翻译为目标语言，以 JSON 格式返回（不要包含 markdown 代码块标记）。'
+
+/**
+ * 目标语言名称
+ */
+function localeName(locale: string): string {
+  return LOCALE_NAMES[locale] ?? locale
+}
+
+/**
+ * 生成翻译提示词 (以原文和中文内容为参考)
+ */
+export function buildTranslationPrompt(locale: string, source: TranslationSource): string {
+  const language = localeName(locale)
+  return `目标语言: ${language} (${locale})
+原始标题: ${source.name}
+中文标题: ${source.name_zh ?? ''}
+中文描述: ${source.description ?? ''}
+标签 (共 ${source.tags.length} 个): ${JSON.stringify(source.tags)}
+
+请翻译为${language}，返回 JSON 格式：
+{
+  "name": "标题翻译",
+  "description": "参考中文描述的生动描述",
+  "tags": ["标签1", "标签2", ...]
+}
+
+要求：
+1. name: 简洁的${language}标题
+2. description: 参考中文描述，用${language}撰写 (${MIN_DESCRIPTION_LENGTH}-${
+    MAX_DESCRIPTION_LENGTH * 2
+  } 字符)
+3. tags: 按原顺序逐一翻译所有标签，数量必须一致 (${source.tags.length} 个)`
+}
+
+/**
+ * 生成修复提示词 (上一次输出未通过校验时使用)
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  return `上一次返回的内容未通过校验：
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+请修正以上问题，只返回修正后的完整 JSON。`
+}
+
+/**
+ * 是否为未翻译的内容 (不含中文,且包含英文字母)
+ */
+function isUntranslated(value: string): boolean {
+  return !HAN_PATTERN.test(value) && /[a-z]/i.test(value)
+}
+
+/**
+ * 标签是否原样未翻译 (忽略 4K / PC 等全大写缩写)
+ */
+function isUntranslatedTag(tagZh: string, tag: string): boolean {
+  return tagZh.toLowerCase() === tag.toLowerCase() && !HAN_PATTERN.test(tagZh) &&
+    /[a-z]{3,}/i.test(tagZh) && tagZh !== tagZh.toUpperCase()
+}
+
+/**
+ * 解析 JSON (清理可能的 markdown 代码块标记),失败时返回 undefined
+ */
+function parseJSON(text: string): unknown {
+  const cleanedText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+  try {
+    return JSON.parse(cleanedText)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * zod 校验问题转为提示信息
+ */
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'JSON'}: ${issue.message}`)
+}
+
+/**
+ * 解析并校验 AI 输出
+ * 检查 JSON 结构、字段长度、tags_zh 与需要翻译的标签一一对应,以及未翻译的字段
+ */
+export function parseAIContent(text: string, tags: string[]): ParseResult<AIContent> {
+  const json = parseJSON(text)
+  if (json === undefined) {
+    return { success: false, issues: ['返回内容不是合法的 JSON'] }
+  }
+
+  const result = aiContentSchema.safeParse(json)
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) }
+  }
+
+  const data = result.data
+  const issues: string[] = []
+
+  if (isUntranslated(data.name_zh)) {
+    issues.push('name_zh 未翻译为中文')
+  }
+
+  if (!HAN_PATTERN.test(data.description)) {
+    issues.push('description 不是中文')
+  }
+
+  if (data.tags_zh.length !== tags.length) {
+    issues.push(
+      `tags_zh 数量 (${data.tags_zh.length}) 与需要翻译的标签数量 (${tags.length}) 不一致`,
+    )
+  } else {
+    data.tags_zh.forEach((tagZh, i) => {
+      if (isUntranslatedTag(tagZh, tags[i])) {
+        issues.push(`tags_zh[${i}] "${tagZh}" 未翻译`)
+      }
+    })
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data }
+}
+
+/**
+ * 解析并校验翻译输出
+ * 检查 JSON 结构、字段长度、tags 与原标签一一对应,以及不含目标语言文字的字段
+ */
+export function parseTranslation(
+  text: string,
+  locale: string,
+  tags: string[],
+): ParseResult<TranslationContent> {
+  const json = parseJSON(text)
+  if (json === undefined) {
+    return { success: false, issues: ['返回内容不是合法的 JSON'] }
+  }
+
+  const result = translationSchema.safeParse(json)
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) }
+  }
+
+  const data = result.data
+  const issues: string[] = []
+  const script = LOCALE_SCRIPTS[locale]
+  const nameScript = LOCALE_NAME_SCRIPTS[locale] ?? script
+
+  if (nameScript && !nameScript.test(data.name)) {
+    issues.push(`name 未翻译为${localeName(locale)}`)
+  }
+
+  if (script && !script.test(data.description)) {
+    issues.push(`description 不是${localeName(locale)}`)
+  }
+
+  if (data.tags.length !== tags.length) {
+    issues.push(`tags 数量 (${data.tags.length}) 与原标签数量 (${tags.length}) 不一致`)
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data }
+}
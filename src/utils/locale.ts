@@ -0,0 +1,68 @@
+// 原文语言 (wallpapers.name / tags)
+export const SOURCE_LOCALE = 'en'
+
+// 中文 (wallpapers.name_zh / description / tags_zh)
+export const ZH_LOCALE = 'zh'
+
+// 汉字 (含扩展 A 区和兼容汉字),用于判断中文内容
+export const HAN_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/
+
+// 中日韩文字 (汉字 + 假名 + 谚文),单个字符即可构成有意义的词
+export const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/
+
+// 语言代码格式 (小写): ja / ko / pt-br
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})?$/
+
+/**
+ * 需要 AI 翻译的目标语言 (环境变量 TRANSLATION_LOCALES,逗号分隔,默认 ja,ko)
+ * 原文和中文不在其中
+ */
+export function getTargetLocales(): string[] {
+  const value = Deno.env.get('TRANSLATION_LOCALES') ?? 'ja,ko'
+  const locales = value.split(',').map((locale) => locale.trim().toLowerCase())
+  return [...new Set(locales)].filter((locale) =>
+    LOCALE_PATTERN.test(locale) && locale !== SOURCE_LOCALE && locale !== ZH_LOCALE
+  )
+}
+
+/**
+ * 支持的语言 (原文 + 中文 + 目标语言)
+ */
+export function getSupportedLocales(): string[] {
+  return [SOURCE_LOCALE, ZH_LOCALE, ...getTargetLocales()]
+}
+
+/**
+ * 解析 Accept-Language 请求头,按权重从高到低返回语言代码
+ * 如 "ja-JP,ja;q=0.9,en;q=0.8" → ["ja-jp", "ja", "en"]
+ */
+export function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='))
+      return { tag: tag.trim().toLowerCase(), q: q ? Number(q.slice(2)) : 1, index }
+    })
+    .filter((item) => item.tag && item.tag !== '*' && item.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((item) => item.tag)
+}
+
+/**
+ * 确定响应语言: 优先使用 lang 参数,其次 Accept-Language
+ * 依次尝试完整代码和主语言 (zh-tw → zh);都不支持时返回原文语言,两者均未提供时返回 null
+ */
+export function resolveLocale(lang?: string, acceptLanguage?: string): string | null {
+  const requested = lang ? [lang] : acceptLanguage ? parseAcceptLanguage(acceptLanguage) : []
+  if (requested.length === 0) return null
+
+  const supported = getSupportedLocales()
+  for (const tag of requested) {
+    if (supported.includes(tag)) return tag
+    const primary = tag.split('-')[0]
+    if (supported.includes(primary)) return primary
+  }
+
+  return SOURCE_LOCALE
+}
@@ -0,0 +1,6 @@
+/**
+ * 转换为 PostgREST 数组字面量: {"a","b"}
+ */
+export function toArrayLiteral(values: string[]): string {
+  return `{${values.map((value) => `"${value}"`).join(',')}}`
+}
@@ -0,0 +1,157 @@
+// 复数 → 单数 (只还原表中的词;专有名词如 christmas / texas / los-angeles 不受影响,其余由别名表修正)
+const PLURALS: Record<string, string> = {
+  // 不规则复数
+  children: 'child',
+  people: 'person',
+  men: 'man',
+  women: 'woman',
+  mice: 'mouse',
+  geese: 'goose',
+  teeth: 'tooth',
+  feet: 'foot',
+  leaves: 'leaf',
+  wolves: 'wolf',
+  knives: 'knife',
+  heroes: 'hero',
+  // 壁纸标签中常见的复数
+  girls: 'girl',
+  boys: 'boy',
+  couples: 'couple',
+  friends: 'friend',
+  characters: 'character',
+  animals: 'animal',
+  cats: 'cat',
+  dogs: 'dog',
+  birds: 'bird',
+  foxes: 'fox',
+  dragons: 'dragon',
+  butterflies: 'butterfly',
+  flowers: 'flower',
+  trees: 'tree',
+  plants: 'plant',
+  forests: 'forest',
+  mountains: 'mountain',
+  hills: 'hill',
+  rivers: 'river',
+  lakes: 'lake',
+  waves: 'wave',
+  beaches: 'beach',
+  islands: 'island',
+  clouds: 'cloud',
+  skies: 'sky',
+  stars: 'star',
+  planets: 'planet',
+  galaxies: 'galaxy',
+  lights: 'light',
+  cities: 'city',
+  streets: 'street',
+  buildings: 'building',
+  houses: 'house',
+  cars: 'car',
+  bikes: 'bike',
+  trains: 'train',
+  ships: 'ship',
+  robots: 'robot',
+  weapons: 'weapon',
+  swords: 'sword',
+  guns: 'gun',
+  games: 'game',
+  movies: 'movie',
+  zombies: 'zombie',
+  monsters: 'monster',
+  cookies: 'cookie',
+  hoodies: 'hoodie',
+  selfies: 'selfie',
+  pixies: 'pixie',
+  eyes: 'eye',
+  wings: 'wing',
+  ears: 'ear',
+  horns: 'horn',
+  colors: 'color',
+  colours: 'colour',
+  shapes: 'shape',
+  lines: 'line',
+  particles: 'particle',
+  bubbles: 'bubble',
+  flames: 'flame',
+  seasons: 'season',
+}
+
+/**
+ * 英文单词还原为单数 (仅限 PLURALS 中的词,避免误伤以 s 结尾的专有名词和单数词)
+ */
+function singularize(word: string): string {
+  return PLURALS[word] ?? word
+}
+
+/**
+ * 拆分标签为小写单词: 统一大小写与全半角,去掉撇号,按标点和空白切分
+ */
+function tagWords(tag: string): string[] {
+  return tag
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+/**
+ * 标签规范化为 slug: 统一大小写与全半角,标点和空白替换为 -,常见英文复数还原为单数
+ * 如 "Anime Girls" / "anime-girl" / "Anime_Girl" → "anime-girl"
+ */
+export function normalizeTag(tag: string): string {
+  return tagWords(tag).map(singularize).join('-')
+}
+
+/**
+ * 标签转为 slug 但保留词形 (不还原单数),用于人工指定的规范标签
+ */
+export function slugifyTag(tag: string): string {
+  return tagWords(tag).join('-')
+}
+
+/**
+ * slug 转为全文搜索短语 ("anime-girl" → "anime girl")
+ */
+export function tagToPhrase(slug: string): string {
+  return slug.replace(/-/g, ' ')
+}
+
+/**
+ * 由别名表构建别名映射 (别名 → 规范标签)
+ * 规范标签同时映射到自身: 人工指定的规范标签可能保留复数词形 (如 kitty → cats),再次解析时不能还原为单数
+ */
+export function buildAliasMap(rows: { alias: string; tag: string }[]): Map<string, string> {
+  const aliases = new Map<string, string>()
+  for (const row of rows) {
+    aliases.set(row.alias, row.tag)
+  }
+  for (const row of rows) {
+    if (!aliases.has(row.tag)) aliases.set(row.tag, row.tag)
+  }
+  return aliases
+}
+
+/**
+ * 使用别名映射解析为规范标签: 先按原词形匹配 (规范标签可能是复数),再按还原单数后的 slug 匹配别名
+ * 解析结果再次解析保持不变
+ */
+export function resolveAlias(aliases: Map<string, string>, tag: string): string {
+  const exact = aliases.get(slugifyTag(tag))
+  if (exact) return exact
+  const slug = normalizeTag(tag)
+  return aliases.get(slug) ?? slug
+}
+
+/**
+ * 使用给定的别名映射批量解析标签 (去重并保持顺序,丢弃规范化后为空的标签)
+ */
+export function canonicalizeWith(aliases: Map<string, string>, tags: string[]): string[] {
+  const result: string[] = []
+  for (const tag of tags) {
+    const canonical = resolveAlias(aliases, tag)
+    if (canonical && !result.includes(canonical)) result.push(canonical)
+  }
+  return result
+}
@@ -0,0 +1,43 @@
+import { assertEquals } from '@std/assert'
+import { buildAliasMap, canonicalizeWith, normalizeTag, resolveAlias } from './tags.ts'
+
+const aliases = buildAliasMap([
+  { alias: 'kitty', tag: 'cats' },
+  { alias: 'car', tag: 'automobile' },
+  { alias: 'anime-girl', tag: 'anime-girls' },
+])
+
+Deno.test('normalizeTag 统一大小写、标点并还原常见复数', () => {
+  assertEquals(normalizeTag('Anime Girls'), 'anime-girl')
+  assertEquals(normalizeTag('Anime_Girl'), 'anime-girl')
+  assertEquals(normalizeTag('Christmas'), 'christmas')
+})
+
+Deno.test('resolveAlias 保留规范标签的复数词形', () => {
+  assertEquals(resolveAlias(aliases, 'Kitty'), 'cats')
+  assertEquals(resolveAlias(aliases, 'cats'), 'cats')
+  assertEquals(resolveAlias(aliases, 'Anime Girls'), 'anime-girls')
+  assertEquals(resolveAlias(aliases, 'Cars'), 'automobile')
+  assertEquals(resolveAlias(aliases, 'Dogs'), 'dog')
+})
+
+Deno.test('canonicalizeWith 重复解析结果不变', () => {
+  const inputs = [
+    ['kitty', 'Cats', 'cat'],
+    ['Anime Girls', 'anime-girl', 'ANIME_GIRLS'],
+    ['Cars', 'automobile', 'Sunset'],
+    ['Dogs', 'dog', '', '!!'],
+  ]
+
+  for (const tags of inputs) {
+    const once = canonicalizeWith(aliases, tags)
+    assertEquals(canonicalizeWith(aliases, once), once)
+  }
+})
+
+Deno.test('canonicalizeWith 去重并保持顺序', () => {
+  assertEquals(canonicalizeWith(aliases, ['kitty', 'Sunset', 'cats', '', 'sunset']), [
+    'cats',
+    'sunset',
+  ])
+})
@@ -1,4 +1,14 @@
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import type { BulkAction, BulkFilter } from '../types/bulk.ts'
+import type { CrawlFailureStage, CrawlMode } from '../types/crawl.ts'
+import type { TagSort, TagTranslationOrigin } from '../types/tag.ts'
+import type {
+  Resolution,
+  WallpaperFilters,
+  WallpaperLockableField,
+  WallpaperSort,
+  WallpaperUpdate,
+} from '../types/wallpaper.ts'
 
 /**
  * 自定义错误类
@@ -61,6 +71,164 @@ export const searchQuerySchema = z.string().max(100).transform((val: string) =>
   val.trim().replace(/[<>]/g, '')
 ).optional()
 
+// 标签目录查询验证
+export const tagQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).catch(1),
+  limit: z.coerce.number().int().min(1).max(200).catch(50),
+  search: z.string().max(50).transform((val: string) => val.trim().replace(/[<>%_*,()"\\]/g, ''))
+    .optional(),
+  sort: z.enum(['count', 'name']).default('count'),
+})
+
+// 统计天数验证 (默认 30 天,最多 90 天)
+export const statsDaysSchema = z.coerce.number().int().min(1).max(90).catch(30)
+
+// 手动爬取请求体验证 (limit 仅用于 refresh 模式)
+export const crawlRequestSchema = z.object({
+  mode: z.enum(['incremental', 'full', 'refresh']).default('incremental'),
+  source: z.string().regex(/^[a-z0-9-]{1,32}$/).default('moewalls'),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+})
+
+// 爬取日志 ID 验证
+export const crawlLogIdSchema = z.string().uuid()
+
+// 失败重试请求体验证
+export const retryFailedSchema = z.object({
+  source: z.string().regex(/^[a-z0-9-]{1,32}$/).default('moewalls'),
+  log_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+
+// 失败记录查询验证
+export const crawlFailureQuerySchema = z.object({
+  log_id: z.string().uuid().optional(),
+  source: z.string().regex(/^[a-z0-9-]{1,32}$/).optional(),
+  stage: z.enum(['fetch', 'parse', 'ai', 'db']).optional(),
+  include_resolved: z.string().optional(),
+})
+
+// AI 内容补全请求体验证
+export const enrichRequestSchema = z.object({
+  dry_run: z.boolean().default(false),
+  include_outdated: z.boolean().default(false),
+  limit: z.coerce.number().int().min(1).max(2000).default(200),
+})
+
+// 标签翻译查询验证
+export const tagTranslationQuerySchema = z.object({
+  search: z.string().max(50).transform((val: string) => val.trim().replace(/[<>%_*,()"\\]/g, ''))
+    .optional(),
+  origin: z.enum(['ai', 'manual']).optional(),
+  sort: z.enum(['count', 'name', 'updated']).default('count'),
+})
+
+// 标签翻译修正请求体验证
+export const tagTranslationUpdateSchema = z.object({
+  label_zh: z.string().trim().min(1).max(20),
+  propagate: z.boolean().default(true),
+})
+
+// 标签别名请求体验证
+export const tagAliasUpdateSchema = z.object({
+  tag: z.string().trim().min(1).max(50),
+})
+
+// 标签规范化请求体验证
+export const tagNormalizeRequestSchema = z.object({
+  dry_run: z.boolean().default(false),
+})
+
+// 原文标签路径参数验证
+export const tagParamSchema = z.string().trim().min(1).max(50)
+
+// 链接检查请求体验证
+export const linkCheckRequestSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+})
+
+// 壁纸 ID 验证
+export const wallpaperIdSchema = z.string().uuid()
+
+// 可锁定字段验证
+export const lockableFieldSchema = z.enum(['name_zh', 'description', 'tags', 'tags_zh', 'status'])
+
+// 管理端壁纸查询验证
+export const adminWallpaperQuerySchema = z.object({
+  status: z.enum(['active', 'inactive', 'all']).default('all'),
+  source: z.string().regex(/^[a-z0-9-]{1,32}$/).optional(),
+  search: z.string().max(100).transform((val: string) => val.trim().replace(/[<>%_*,()"\\]/g, ''))
+    .optional(),
+  locked: z.string().optional(),
+})
+
+// 管理端壁纸修改请求体验证
+export const wallpaperUpdateSchema = z.object({
+  name_zh: z.string().trim().min(1).max(50).optional(),
+  description: z.string().trim().min(1).max(600).optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).min(1).max(50).optional(),
+  tags_zh: z.array(z.string().trim().min(1).max(20)).max(50).optional(),
+  status: z.enum(['active', 'inactive']).optional(),
+  lock: z.boolean().default(true),
+  locked_fields: z.array(lockableFieldSchema).max(5).optional(),
+})
+
+// 搜索建议查询验证
+export const suggestQuerySchema = z.object({
+  q: z.string().max(50).transform((val: string) => val.trim().replace(/[<>%_\\]/g, ''))
+    .default(''),
+  limit: z.coerce.number().int().min(1).max(20).catch(8),
+})
+
+// 批量操作筛选条件验证
+export const bulkFilterSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(200).optional(),
+  search: searchQuerySchema,
+  tags: z.array(
+    z.string().max(50).transform((val: string) => val.trim().replace(/[<>"{}(),\\]/g, ''))
+      .pipe(z.string().min(1)),
+  ).min(1).max(10).optional(),
+  status: z.enum(['active', 'inactive', 'all']).default('all'),
+  category: z.string().trim().toLowerCase().regex(/^[a-z0-9-]{1,50}$/).optional(),
+  source: z.string().regex(/^[a-z0-9-]{1,32}$/).optional(),
+  crawled_from: z.coerce.date().transform((date: Date) => date.toISOString()).optional(),
+  crawled_to: z.coerce.date().transform((date: Date) => date.toISOString()).optional(),
+})
+
+// 批量操作请求体验证
+export const bulkRequestSchema = z.object({
+  filter: bulkFilterSchema,
+  action: z.enum(['activate', 'deactivate', 'add_tag', 'remove_tag', 're_enrich', 'delete']),
+  tag: z.string().trim().min(1).max(50).optional(),
+  dry_run: z.boolean().default(false),
+})
+
+// 语言代码验证 (如 ja / zh-CN / pt-BR)
+export const langSchema = z.string().trim().toLowerCase().regex(/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/)
+
+// 随机种子验证
+export const seedSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/)
+
+// 分辨率格式: 宽x高 (如 1920x1080)
+export const resolutionSchema = z.string().trim().toLowerCase().regex(/^\d{3,5}x\d{3,5}$/)
+
+// 标签列表验证 (逗号分隔,最多 10 个)
+export const tagListSchema = z.string().transform((val: string) =>
+  val.split(',').map((tag) => tag.trim().replace(/[<>"{}(),\\]/g, '')).filter(Boolean)
+).pipe(z.array(z.string().max(50)).max(10))
+
+// 排序方式验证
+export const wallpaperSortSchema = z.enum(['latest', 'name', 'relevance', 'popular', 'trending'])
+
+// 列表过滤参数验证
+export const wallpaperFiltersSchema = z.object({
+  tags: tagListSchema.optional(),
+  tags_mode: z.enum(['all', 'any']).default('all'),
+  category: z.string().trim().toLowerCase().regex(/^[a-z0-9-]{1,50}$/).optional(),
+  resolution: resolutionSchema.optional(),
+  min_resolution: resolutionSchema.optional(),
+})
+
 /**
  * 验证分页参数
  */
@@ -83,3 +251,362 @@ export function sanitizeSearchQuery(query?: string): string {
   const result = searchQuerySchema.safeParse(query)
   return result.success ? result.data || '' : ''
 }
+
+/**
+ * 解析分辨率字符串 (如 1920x1080)
+ */
+export function parseResolution(value: string): Resolution | null {
+  const match = value.match(/(\d{3,5})\s*[x×]\s*(\d{3,5})/i)
+  if (!match) return null
+  return { width: Number(match[1]), height: Number(match[2]) }
+}
+
+/**
+ * 验证列表过滤参数
+ */
+export function validateWallpaperFilters(
+  params: Record<string, string | undefined>,
+): WallpaperFilters {
+  const result = wallpaperFiltersSchema.safeParse(params)
+  if (!result.success) {
+    throw new ApiError(400, '无效的查询参数', 'INVALID_PARAMS')
+  }
+
+  const { tags, tags_mode, category, resolution, min_resolution } = result.data
+  return {
+    tags,
+    tagsMode: tags_mode,
+    category,
+    resolution,
+    minResolution: min_resolution ? parseResolution(min_resolution) ?? undefined : undefined,
+  }
+}
+
+/**
+ * 验证排序方式
+ * 搜索时默认按相关度排序,否则按最新排序;无搜索词时 relevance 退化为 latest
+ */
+export function validateSort(sort: string | undefined, search: string): WallpaperSort {
+  if (!sort) return search ? 'relevance' : 'latest'
+
+  const result = wallpaperSortSchema.safeParse(sort)
+  if (!result.success) {
+    throw new ApiError(400, '无效的排序方式', 'INVALID_PARAMS')
+  }
+
+  return result.data === 'relevance' && !search ? 'latest' : result.data
+}
+
+/**
+ * 解析布尔查询参数 (true / 1)
+ */
+export function parseBooleanQuery(value?: string): boolean {
+  return value === 'true' || value === '1'
+}
+
+/**
+ * 验证语言代码
+ */
+export function validateLang(lang?: string): string | undefined {
+  if (!lang) return undefined
+
+  const result = langSchema.safeParse(lang)
+  if (!result.success) {
+    throw new ApiError(400, '无效的语言代码', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证随机种子,未传入时生成新种子
+ */
+export function validateSeed(seed?: string): string {
+  if (!seed) return crypto.randomUUID().slice(0, 8)
+
+  const result = seedSchema.safeParse(seed)
+  if (!result.success) {
+    throw new ApiError(400, '无效的随机种子', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证标签目录查询参数
+ */
+export function validateTagQuery(
+  params: Record<string, string | undefined>,
+): { page: number; limit: number; search: string; sort: TagSort } {
+  const result = tagQuerySchema.safeParse(params)
+  if (!result.success) {
+    throw new ApiError(400, '无效的查询参数', 'INVALID_PARAMS')
+  }
+
+  const { page, limit, search, sort } = result.data
+  return { page, limit, search: search || '', sort }
+}
+
+/**
+ * 验证统计天数
+ */
+export function validateStatsDays(days?: string): number {
+  return days ? statsDaysSchema.parse(days) : 30
+}
+
+/**
+ * 验证手动爬取请求体
+ */
+export function validateCrawlRequest(
+  body: unknown,
+): { mode: CrawlMode | 'refresh'; source: string; limit: number } {
+  const result = crawlRequestSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证爬取日志 ID
+ */
+export function validateCrawlLogId(id?: string): string {
+  const result = crawlLogIdSchema.safeParse(id)
+  if (!result.success) {
+    throw new ApiError(400, '无效的爬取记录 ID', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证失败重试请求体
+ */
+export function validateRetryFailedRequest(
+  body: unknown,
+): { source: string; logId?: string; limit: number } {
+  const result = retryFailedSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+
+  const { source, log_id, limit } = result.data
+  return { source, logId: log_id, limit }
+}
+
+/**
+ * 验证失败记录查询参数
+ */
+export function validateCrawlFailureQuery(params: Record<string, string | undefined>): {
+  logId?: string
+  source?: string
+  stage?: CrawlFailureStage
+  includeResolved: boolean
+} {
+  const result = crawlFailureQuerySchema.safeParse(params)
+  if (!result.success) {
+    throw new ApiError(400, '无效的查询参数', 'INVALID_PARAMS')
+  }
+
+  const { log_id, source, stage, include_resolved } = result.data
+  return {
+    logId: log_id,
+    source,
+    stage,
+    includeResolved: parseBooleanQuery(include_resolved),
+  }
+}
+
+/**
+ * 验证链接检查请求体
+ */
+export function validateLinkCheckRequest(body: unknown): { limit: number } {
+  const result = linkCheckRequestSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证标签翻译查询参数
+ */
+export function validateTagTranslationQuery(params: Record<string, string | undefined>): {
+  search: string
+  origin?: TagTranslationOrigin
+  sort: 'count' | 'name' | 'updated'
+} {
+  const result = tagTranslationQuerySchema.safeParse(params)
+  if (!result.success) {
+    throw new ApiError(400, '无效的查询参数', 'INVALID_PARAMS')
+  }
+
+  const { search, origin, sort } = result.data
+  return { search: search || '', origin, sort }
+}
+
+/**
+ * 验证标签翻译修正请求体
+ */
+export function validateTagTranslationUpdate(
+  body: unknown,
+): { labelZh: string; propagate: boolean } {
+  const result = tagTranslationUpdateSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+
+  const { label_zh, propagate } = result.data
+  return { labelZh: label_zh, propagate }
+}
+
+/**
+ * 验证标签别名请求体
+ */
+export function validateTagAliasUpdate(body: unknown): { tag: string } {
+  const result = tagAliasUpdateSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证标签规范化请求体
+ */
+export function validateTagNormalizeRequest(body: unknown): { dryRun: boolean } {
+  const result = tagNormalizeRequestSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+  return { dryRun: result.data.dry_run }
+}
+
+/**
+ * 验证原文标签路径参数
+ */
+export function validateTagParam(tag?: string): string {
+  const result = tagParamSchema.safeParse(tag)
+  if (!result.success) {
+    throw new ApiError(400, '无效的标签', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证 AI 内容补全请求体
+ */
+export function validateEnrichRequest(
+  body: unknown,
+): { dryRun: boolean; includeOutdated: boolean; limit: number } {
+  const result = enrichRequestSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+
+  const { dry_run, include_outdated, limit } = result.data
+  return { dryRun: dry_run, includeOutdated: include_outdated, limit }
+}
+
+/**
+ * 验证壁纸 ID 路径参数
+ */
+export function validateWallpaperId(id?: string): string {
+  const result = wallpaperIdSchema.safeParse(id)
+  if (!result.success) {
+    throw new ApiError(400, '无效的壁纸 ID', 'INVALID_PARAMS')
+  }
+  return result.data
+}
+
+/**
+ * 验证管理端壁纸查询参数
+ */
+export function validateAdminWallpaperQuery(params: Record<string, string | undefined>): {
+  status: 'active' | 'inactive' | 'all'
+  source?: string
+  search: string
+  lockedOnly: boolean
+} {
+  const result = adminWallpaperQuerySchema.safeParse(params)
+  if (!result.success) {
+    throw new ApiError(400, '无效的查询参数', 'INVALID_PARAMS')
+  }
+
+  const { status, source, search, locked } = result.data
+  return { status, source, search: search || '', lockedOnly: parseBooleanQuery(locked) }
+}
+
+/**
+ * 验证管理端壁纸修改请求体
+ * lock=true (默认) 时修改的字段自动锁定;传入 locked_fields 时以其为准 (可用于解锁)
+ */
+export function validateWallpaperUpdate(body: unknown): {
+  update: WallpaperUpdate
+  lock: boolean
+  lockedFields?: WallpaperLockableField[]
+} {
+  const result = wallpaperUpdateSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+
+  const { lock, locked_fields, ...update } = result.data
+  const fields = Object.fromEntries(
+    Object.entries(update).filter(([, value]) => value !== undefined),
+  ) as WallpaperUpdate
+
+  if (Object.keys(fields).length === 0 && !locked_fields) {
+    throw new ApiError(400, '没有需要修改的字段', 'INVALID_PARAMS')
+  }
+
+  if (fields.tags && fields.tags_zh && fields.tags.length !== fields.tags_zh.length) {
+    throw new ApiError(400, 'tags_zh 数量与标签数量不一致', 'TAGS_MISMATCH')
+  }
+
+  return {
+    update: fields,
+    lock,
+    lockedFields: locked_fields ? [...new Set(locked_fields)] : undefined,
+  }
+}
+
+/**
+ * 验证批量操作请求体
+ * 筛选条件不能只有 status (避免误操作全部壁纸);add_tag / remove_tag 必须指定 tag
+ */
+export function validateBulkRequest(body: unknown): {
+  filter: BulkFilter
+  action: BulkAction
+  tag?: string
+  dryRun: boolean
+} {
+  const result = bulkRequestSchema.safeParse(body ?? {})
+  if (!result.success) {
+    throw new ApiError(400, '无效的请求参数', 'INVALID_PARAMS')
+  }
+
+  const { filter, action, tag, dry_run } = result.data
+  const { status: _status, ...criteria } = filter
+  if (!Object.values(criteria).some((value) => value !== undefined && value !== '')) {
+    throw new ApiError(400, '至少需要一个筛选条件', 'INVALID_PARAMS')
+  }
+
+  if ((action === 'add_tag' || action === 'remove_tag') && !tag) {
+    throw new ApiError(400, '缺少标签', 'INVALID_PARAMS')
+  }
+
+  return { filter, action, tag, dryRun: dry_run }
+}
+
+/**
+ * 验证搜索建议查询参数
+ */
+export function validateSuggestQuery(
+  params: Record<string, string | undefined>,
+): { query: string; limit: number } {
+  const result = suggestQuerySchema.safeParse(params)
+  if (!result.success) {
+    throw new ApiError(400, '无效的查询参数', 'INVALID_PARAMS')
+  }
+
+  const { q, limit } = result.data
+  return { query: q, limit }
+}
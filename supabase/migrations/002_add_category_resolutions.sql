@@ -0,0 +1,32 @@
+-- 添加分类与分辨率字段
+-- 执行时间: 2026-10-19
+-- 特点: 支持按分类过滤、按分辨率过滤 (精确匹配 / 不低于指定分辨率)
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN category TEXT;
+ALTER TABLE wallpapers ADD COLUMN resolutions TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE wallpapers ADD COLUMN max_width INTEGER;
+ALTER TABLE wallpapers ADD COLUMN max_height INTEGER;
+
+COMMENT ON COLUMN wallpapers.category IS '分类 slug (如 landscape, anime)';
+COMMENT ON COLUMN wallpapers.resolutions IS '支持的分辨率数组 (如 3840x2160)';
+COMMENT ON COLUMN wallpapers.max_width IS '最大分辨率宽度 (用于 "不低于" 过滤)';
+COMMENT ON COLUMN wallpapers.max_height IS '最大分辨率高度 (用于 "不低于" 过滤)';
+
+-- ============================================================
+-- 2. 创建索引
+-- ============================================================
+
+-- 分类过滤索引
+CREATE INDEX idx_wallpapers_category ON wallpapers(category);
+
+-- 分辨率数组索引 (GIN 索引,支持精确匹配)
+CREATE INDEX idx_wallpapers_resolutions ON wallpapers USING GIN(resolutions);
+
+-- 最大分辨率索引 (支持范围过滤)
+CREATE INDEX idx_wallpapers_max_resolution ON wallpapers(max_width, max_height);
+
+ANALYZE wallpapers;
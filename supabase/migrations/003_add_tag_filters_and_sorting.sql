@@ -0,0 +1,34 @@
+-- 标签过滤与排序支持
+-- 执行时间: 2026-10-19
+-- 特点: 中文标签 GIN 索引 + 排序索引 + 相关度排序搜索函数
+
+-- ============================================================
+-- 1. 创建索引
+-- ============================================================
+
+-- 中文标签数组索引 (GIN 索引,与 idx_wallpapers_tags 配合实现双语标签过滤)
+CREATE INDEX idx_wallpapers_tags_zh ON wallpapers USING GIN(tags_zh);
+
+-- 排序索引
+CREATE INDEX idx_wallpapers_crawled_at ON wallpapers(crawled_at DESC);
+CREATE INDEX idx_wallpapers_name ON wallpapers(name);
+
+-- ============================================================
+-- 2. 相关度排序搜索函数
+-- ============================================================
+
+-- 按 ts_rank 降序返回匹配的壁纸
+-- 返回 SETOF wallpapers,API 可继续链式追加过滤和分页 (supabase.rpc().eq().range())
+CREATE OR REPLACE FUNCTION search_wallpapers(search_query TEXT)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.search_vector @@ websearch_to_tsquery('simple', search_query)
+  ORDER BY
+    ts_rank(w.search_vector, websearch_to_tsquery('simple', search_query)) DESC,
+    w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_wallpapers(TEXT) IS '全文搜索并按相关度排序';
+
+ANALYZE wallpapers;
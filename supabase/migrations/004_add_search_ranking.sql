@@ -0,0 +1,80 @@
+-- 搜索相关度排序、模糊搜索与高亮
+-- 执行时间: 2026-10-19
+-- 特点: 显式 A/B/C 权重排序 + 三元组模糊回退 + ts_headline 高亮片段
+
+-- ============================================================
+-- 1. 相关度排序搜索函数 (显式权重)
+-- ============================================================
+
+-- 权重数组顺序为 {D, C, B, A},与 update_search_vector 触发器设置的权重对应:
+--   A: name / name_zh, B: description, C: tags / tags_zh
+-- 归一化参数 32: rank / (rank + 1),将分值压缩到 0-1
+CREATE OR REPLACE FUNCTION search_wallpapers(search_query TEXT)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.search_vector @@ websearch_to_tsquery('simple', search_query)
+  ORDER BY
+    ts_rank(
+      '{0.1, 0.2, 0.4, 1.0}',
+      w.search_vector,
+      websearch_to_tsquery('simple', search_query),
+      32
+    ) DESC,
+    w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- 2. 模糊搜索函数 (全文搜索无结果时的回退)
+-- ============================================================
+
+-- 基于 pg_trgm 的名称相似度搜索,容忍拼写错误 (使用 idx_wallpapers_name_trgm 索引)
+CREATE OR REPLACE FUNCTION fuzzy_search_wallpapers(search_query TEXT)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.name % search_query OR search_query <% w.name
+  ORDER BY
+    greatest(similarity(w.name, search_query), word_similarity(search_query, w.name)) DESC,
+    w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION fuzzy_search_wallpapers(TEXT) IS '名称模糊搜索 (三元组相似度排序)';
+
+-- ============================================================
+-- 3. 搜索高亮函数
+-- ============================================================
+
+-- 为指定壁纸生成名称 / 中文名称 / 描述的高亮片段 (<mark> 标记命中词)
+CREATE OR REPLACE FUNCTION search_wallpaper_headlines(search_query TEXT, wallpaper_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  name_highlight TEXT,
+  name_zh_highlight TEXT,
+  description_highlight TEXT
+) AS $$
+  SELECT
+    w.id,
+    ts_headline(
+      'simple',
+      w.name,
+      websearch_to_tsquery('simple', search_query),
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+    ),
+    CASE WHEN w.name_zh IS NULL THEN NULL ELSE ts_headline(
+      'simple',
+      w.name_zh,
+      websearch_to_tsquery('simple', search_query),
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+    ) END,
+    CASE WHEN w.description IS NULL THEN NULL ELSE ts_headline(
+      'simple',
+      w.description,
+      websearch_to_tsquery('simple', search_query),
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10'
+    ) END
+  FROM wallpapers w
+  WHERE w.id = ANY(wallpaper_ids)
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_wallpaper_headlines(TEXT, UUID[]) IS '搜索结果高亮片段';
@@ -0,0 +1,18 @@
+-- 随机壁纸函数
+-- 执行时间: 2026-10-19
+-- 特点: 基于种子的确定性随机排序,同一种子可稳定分页且不重复
+
+-- ============================================================
+-- 1. 随机排序函数
+-- ============================================================
+
+-- 以 md5(seed || id) 作为排序键: 同一 seed 顺序固定,不同 seed 顺序不同
+-- 返回 SETOF wallpapers,API 可继续链式追加过滤和分页 (supabase.rpc().eq().range())
+CREATE OR REPLACE FUNCTION random_wallpapers(seed TEXT)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  ORDER BY md5(seed || w.id::text)
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION random_wallpapers(TEXT) IS '按种子确定性随机排序壁纸';
@@ -0,0 +1,21 @@
+-- 标签统计视图
+-- 执行时间: 2026-10-19
+-- 特点: 聚合 active 壁纸的 tags / tags_zh,提供标签目录 (中文名 + 使用次数)
+
+-- ============================================================
+-- 1. 标签统计视图
+-- ============================================================
+
+-- unnest(tags, tags_zh) 按位置将原文标签与中文翻译配对
+-- 同一原文标签存在多个翻译时取出现次数最多的翻译 (mode() 忽略 NULL)
+CREATE OR REPLACE VIEW tag_stats AS
+SELECT
+  t.tag AS name,
+  mode() WITHIN GROUP (ORDER BY t.tag_zh) AS name_zh,
+  count(*)::INTEGER AS count
+FROM wallpapers w
+CROSS JOIN LATERAL unnest(w.tags, w.tags_zh) AS t(tag, tag_zh)
+WHERE w.status = 'active' AND t.tag IS NOT NULL AND t.tag <> ''
+GROUP BY t.tag;
+
+COMMENT ON VIEW tag_stats IS '标签目录: 原文标签、中文翻译、使用次数';
@@ -0,0 +1,117 @@
+-- 浏览 / 下载统计与热度排序
+-- 执行时间: 2026-10-19
+-- 特点: 计数器 + 事件表 (按 IP 去重) + 热门 / 趋势排序
+
+-- ============================================================
+-- 1. 添加计数字段
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN view_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE wallpapers ADD COLUMN download_count INTEGER DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN wallpapers.view_count IS '浏览量 (按 IP 去重)';
+COMMENT ON COLUMN wallpapers.download_count IS '下载量 (按 IP 去重)';
+
+-- 热门排序索引
+CREATE INDEX idx_wallpapers_popular ON wallpapers(download_count DESC, view_count DESC);
+
+-- 计数器变化不应刷新 updated_at: 仅当计数器以外的字段变化时触发
+DROP TRIGGER update_wallpapers_updated_at ON wallpapers;
+CREATE TRIGGER update_wallpapers_updated_at
+  BEFORE UPDATE ON wallpapers
+  FOR EACH ROW
+  WHEN (
+    (to_jsonb(OLD) - 'view_count' - 'download_count' - 'updated_at' - 'search_vector')
+    IS DISTINCT FROM
+    (to_jsonb(NEW) - 'view_count' - 'download_count' - 'updated_at' - 'search_vector')
+  )
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- 2. 创建事件表
+-- ============================================================
+
+CREATE TABLE wallpaper_events (
+  id BIGSERIAL PRIMARY KEY,
+  wallpaper_id UUID NOT NULL REFERENCES wallpapers(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'download')),
+  ip_hash TEXT NOT NULL,                      -- IP 的 SHA-256 摘要 (不存储原始 IP)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE wallpaper_events IS '壁纸浏览 / 下载事件 (用于去重和趋势计算)';
+
+-- 去重查询索引
+CREATE INDEX idx_wallpaper_events_dedup
+  ON wallpaper_events(wallpaper_id, event_type, ip_hash, created_at DESC);
+
+-- 趋势计算索引
+CREATE INDEX idx_wallpaper_events_created_at ON wallpaper_events(created_at DESC);
+
+-- 事件表不开放直接读写,仅通过下方 SECURITY DEFINER 函数访问
+ALTER TABLE wallpaper_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 3. 记录事件函数
+-- ============================================================
+
+-- 同一 IP 在去重窗口内重复访问只计一次,返回是否计数
+CREATE OR REPLACE FUNCTION record_wallpaper_event(
+  p_wallpaper_id UUID,
+  p_event_type TEXT,
+  p_ip_hash TEXT,
+  p_dedup_minutes INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM wallpaper_events
+    WHERE wallpaper_id = p_wallpaper_id
+      AND event_type = p_event_type
+      AND ip_hash = p_ip_hash
+      AND created_at > timezone('utc'::text, now()) - make_interval(mins => p_dedup_minutes)
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO wallpaper_events (wallpaper_id, event_type, ip_hash)
+  VALUES (p_wallpaper_id, p_event_type, p_ip_hash);
+
+  IF p_event_type = 'download' THEN
+    UPDATE wallpapers SET download_count = download_count + 1 WHERE id = p_wallpaper_id;
+  ELSE
+    UPDATE wallpapers SET view_count = view_count + 1 WHERE id = p_wallpaper_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION record_wallpaper_event(UUID, TEXT, TEXT, INTEGER) IS '记录浏览 / 下载事件 (按 IP 去重)';
+
+-- ============================================================
+-- 4. 趋势排序函数
+-- ============================================================
+
+-- 近 7 天事件按时间衰减加权: 下载权重 3,浏览权重 1,半衰期 24 小时
+-- 返回 SETOF wallpapers,API 可继续链式追加过滤和分页 (supabase.rpc().eq().range())
+CREATE OR REPLACE FUNCTION trending_wallpapers()
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  LEFT JOIN (
+    SELECT
+      e.wallpaper_id,
+      sum(
+        CASE WHEN e.event_type = 'download' THEN 3 ELSE 1 END *
+        power(0.5, extract(epoch FROM (timezone('utc'::text, now()) - e.created_at)) / 86400.0)
+      ) AS score
+    FROM wallpaper_events e
+    WHERE e.created_at > timezone('utc'::text, now()) - interval '7 days'
+    GROUP BY e.wallpaper_id
+  ) s ON s.wallpaper_id = w.id
+  ORDER BY coalesce(s.score, 0) DESC, w.download_count DESC, w.crawled_at DESC
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION trending_wallpapers() IS '按近期热度 (时间衰减) 排序壁纸';
@@ -0,0 +1,15 @@
+-- 扩展爬取日志字段
+-- 执行时间: 2026-10-19
+-- 特点: 记录跳过 / 失败数量和是否被手动终止
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE crawl_logs ADD COLUMN skipped_count INTEGER DEFAULT 0;
+ALTER TABLE crawl_logs ADD COLUMN failed_count INTEGER DEFAULT 0;
+ALTER TABLE crawl_logs ADD COLUMN aborted BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN crawl_logs.skipped_count IS '已存在而跳过的壁纸数';
+COMMENT ON COLUMN crawl_logs.failed_count IS '处理失败的壁纸数';
+COMMENT ON COLUMN crawl_logs.aborted IS '是否被手动终止';
@@ -0,0 +1,57 @@
+-- 管理统计函数
+-- 执行时间: 2026-10-19
+-- 特点: 一次调用返回壁纸数据集健康度 (数量、每日新增、翻译缺失率、浏览下载总量)
+
+-- ============================================================
+-- 1. 壁纸统计函数
+-- ============================================================
+
+-- SECURITY DEFINER: 统计需要包含 inactive 壁纸 (RLS 仅允许读取 active)
+-- AI 描述缺失: description 为空,或等于降级格式 "name - tag1, tag2"
+CREATE OR REPLACE FUNCTION admin_wallpaper_stats(p_days INTEGER)
+RETURNS JSONB AS $$
+  WITH totals AS (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE status = 'active') AS active,
+      count(*) FILTER (WHERE status = 'inactive') AS inactive,
+      count(*) FILTER (WHERE name_zh IS NULL OR name_zh = '') AS missing_name_zh,
+      count(*) FILTER (WHERE tags_zh IS NULL OR cardinality(tags_zh) = 0) AS missing_tags_zh,
+      count(*) FILTER (
+        WHERE description IS NULL
+          OR description = name || ' - ' || array_to_string(tags, ', ')
+      ) AS missing_description,
+      coalesce(sum(view_count), 0) AS total_views,
+      coalesce(sum(download_count), 0) AS total_downloads
+    FROM wallpapers
+  ),
+  daily AS (
+    SELECT
+      d::date AS date,
+      count(w.id) AS count
+    FROM generate_series(
+      (timezone('utc'::text, now()) - make_interval(days => p_days - 1))::date,
+      timezone('utc'::text, now())::date,
+      interval '1 day'
+    ) AS d
+    LEFT JOIN wallpapers w ON w.created_at::date = d::date
+    GROUP BY d
+    ORDER BY d
+  )
+  SELECT jsonb_build_object(
+    'total', t.total,
+    'active', t.active,
+    'inactive', t.inactive,
+    'total_views', t.total_views,
+    'total_downloads', t.total_downloads,
+    'missing', jsonb_build_object(
+      'name_zh', CASE WHEN t.total = 0 THEN 0 ELSE round(t.missing_name_zh * 100.0 / t.total, 2) END,
+      'tags_zh', CASE WHEN t.total = 0 THEN 0 ELSE round(t.missing_tags_zh * 100.0 / t.total, 2) END,
+      'description', CASE WHEN t.total = 0 THEN 0 ELSE round(t.missing_description * 100.0 / t.total, 2) END
+    ),
+    'daily', (SELECT coalesce(jsonb_agg(jsonb_build_object('date', date, 'count', count)), '[]'::jsonb) FROM daily)
+  )
+  FROM totals t
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_wallpaper_stats(INTEGER) IS '管理统计: 壁纸数量、每日新增、翻译缺失率';
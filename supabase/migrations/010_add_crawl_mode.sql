@@ -0,0 +1,8 @@
+-- 爬取模式
+-- 执行时间: 2026-10-19
+-- 特点: 区分增量爬取 (遇到已入库页面即停止) 与全量爬取 (补全)
+
+ALTER TABLE crawl_logs ADD COLUMN mode TEXT DEFAULT 'full' NOT NULL
+  CHECK (mode IN ('incremental', 'full'));
+
+COMMENT ON COLUMN crawl_logs.mode IS '爬取模式: incremental 增量 / full 全量';
@@ -0,0 +1,31 @@
+-- 多来源支持
+-- 执行时间: 2026-10-19
+-- 特点: 以 source + source_id 作为壁纸身份,moewalls_id 仅为兼容保留
+
+-- ============================================================
+-- 1. 壁纸来源字段
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN source TEXT DEFAULT 'moewalls' NOT NULL;
+ALTER TABLE wallpapers ADD COLUMN source_id TEXT;
+
+-- 数据迁移: 现有壁纸均来自 moewalls
+UPDATE wallpapers SET source_id = moewalls_id WHERE source_id IS NULL;
+
+ALTER TABLE wallpapers ALTER COLUMN source_id SET NOT NULL;
+ALTER TABLE wallpapers ADD CONSTRAINT wallpapers_source_identity UNIQUE (source, source_id);
+
+-- 其他来源不写入 moewalls_id
+ALTER TABLE wallpapers ALTER COLUMN moewalls_id DROP NOT NULL;
+
+COMMENT ON COLUMN wallpapers.source IS '来源标识 (如 moewalls)';
+COMMENT ON COLUMN wallpapers.source_id IS '来源内的壁纸 ID';
+COMMENT ON COLUMN wallpapers.moewalls_id IS '已废弃: 使用 source + source_id,仅 moewalls 来源写入';
+
+-- ============================================================
+-- 2. 爬取日志来源字段
+-- ============================================================
+
+ALTER TABLE crawl_logs ADD COLUMN source TEXT DEFAULT 'moewalls' NOT NULL;
+
+COMMENT ON COLUMN crawl_logs.source IS '爬取来源';
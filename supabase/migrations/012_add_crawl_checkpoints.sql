@@ -0,0 +1,39 @@
+-- 可恢复的爬取任务
+-- 执行时间: 2026-10-19
+-- 特点: 持久化 URL 队列与单个 URL 处理状态,终止或崩溃后可从检查点继续
+
+-- ============================================================
+-- 1. 爬取日志检查点字段
+-- ============================================================
+
+ALTER TABLE crawl_logs ADD COLUMN last_page INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE crawl_logs ADD COLUMN collection_completed BOOLEAN DEFAULT false NOT NULL;
+ALTER TABLE crawl_logs ADD COLUMN resume_count INTEGER DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN crawl_logs.last_page IS '已扫描到的列表页 (恢复时从下一页继续收集)';
+COMMENT ON COLUMN crawl_logs.collection_completed IS 'URL 收集阶段是否已完成';
+COMMENT ON COLUMN crawl_logs.resume_count IS '恢复运行次数';
+
+-- ============================================================
+-- 2. 创建 URL 队列表
+-- ============================================================
+
+CREATE TABLE crawl_queue (
+  id BIGSERIAL PRIMARY KEY,
+  crawl_log_id UUID NOT NULL REFERENCES crawl_logs(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'done', 'failed')),
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT crawl_queue_log_url UNIQUE (crawl_log_id, url)
+);
+
+COMMENT ON TABLE crawl_queue IS '爬取任务 URL 队列 (检查点)';
+
+-- 恢复时读取待处理 URL
+CREATE INDEX idx_crawl_queue_pending ON crawl_queue(crawl_log_id, id) WHERE status = 'pending';
+
+-- 队列仅由服务端爬虫读写
+ALTER TABLE crawl_queue ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,72 @@
+-- 单个 URL 失败记录与失败重试
+-- 执行时间: 2026-10-19
+-- 特点: 记录失败阶段 / 错误信息 / 尝试次数,支持仅重试失败的 URL
+
+-- ============================================================
+-- 1. 爬取模式新增 retry (重试失败 URL)
+-- ============================================================
+
+ALTER TABLE crawl_logs DROP CONSTRAINT crawl_logs_mode_check;
+ALTER TABLE crawl_logs ADD CONSTRAINT crawl_logs_mode_check
+  CHECK (mode IN ('incremental', 'full', 'retry'));
+
+COMMENT ON COLUMN crawl_logs.mode IS '爬取模式: incremental 增量 / full 全量 / retry 重试失败 URL';
+
+-- ============================================================
+-- 2. 创建失败记录表
+-- ============================================================
+
+-- 每个 URL 一条记录,crawl_log_id 指向最近一次失败的爬取任务
+CREATE TABLE crawl_failures (
+  id BIGSERIAL PRIMARY KEY,
+  crawl_log_id UUID REFERENCES crawl_logs(id) ON DELETE SET NULL,
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('fetch', 'parse', 'ai', 'db')),
+  error_message TEXT NOT NULL,
+  attempts INTEGER DEFAULT 1 NOT NULL,         -- 累计失败次数
+  resolved_at TIMESTAMP WITH TIME ZONE,        -- 之后处理成功的时间 (为空表示仍未解决)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT crawl_failures_source_url UNIQUE (source, url)
+);
+
+COMMENT ON TABLE crawl_failures IS '爬取失败的 URL (阶段: fetch 详情页请求 / parse 解析 / ai AI 生成 / db 数据库写入)';
+
+-- 待重试记录索引
+CREATE INDEX idx_crawl_failures_unresolved
+  ON crawl_failures(source, created_at) WHERE resolved_at IS NULL;
+
+-- 按爬取任务查询
+CREATE INDEX idx_crawl_failures_log ON crawl_failures(crawl_log_id);
+
+-- 失败记录仅由服务端读写
+ALTER TABLE crawl_failures ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 3. 记录失败函数
+-- ============================================================
+
+-- 同一 URL 再次失败时累加尝试次数并重新标记为未解决
+CREATE OR REPLACE FUNCTION record_crawl_failure(
+  p_crawl_log_id UUID,
+  p_source TEXT,
+  p_source_id TEXT,
+  p_url TEXT,
+  p_stage TEXT,
+  p_error_message TEXT
+)
+RETURNS VOID AS $$
+  INSERT INTO crawl_failures (crawl_log_id, source, source_id, url, stage, error_message)
+  VALUES (p_crawl_log_id, p_source, p_source_id, p_url, p_stage, p_error_message)
+  ON CONFLICT (source, url) DO UPDATE SET
+    crawl_log_id = EXCLUDED.crawl_log_id,
+    stage = EXCLUDED.stage,
+    error_message = EXCLUDED.error_message,
+    attempts = crawl_failures.attempts + 1,
+    resolved_at = NULL,
+    updated_at = timezone('utc'::text, now())
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION record_crawl_failure(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) IS '记录 URL 处理失败';
@@ -0,0 +1,27 @@
+-- 刷新模式
+-- 执行时间: 2026-10-19
+-- 特点: 重新抓取已入库壁纸,同步来源变更,来源已删除的壁纸标记为 inactive
+
+-- ============================================================
+-- 1. 壁纸详情页地址
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN source_url TEXT;
+
+COMMENT ON COLUMN wallpapers.source_url IS '来源详情页地址 (刷新时重新抓取,为空时由来源适配器按 source_id 推导)';
+
+-- 刷新按 crawled_at 升序遍历 (最久未抓取的优先)
+CREATE INDEX idx_wallpapers_refresh ON wallpapers(source, crawled_at, id) WHERE status = 'active';
+
+-- ============================================================
+-- 2. 爬取日志
+-- ============================================================
+
+ALTER TABLE crawl_logs DROP CONSTRAINT crawl_logs_mode_check;
+ALTER TABLE crawl_logs ADD CONSTRAINT crawl_logs_mode_check
+  CHECK (mode IN ('incremental', 'full', 'retry', 'refresh'));
+
+ALTER TABLE crawl_logs ADD COLUMN deactivated_count INTEGER DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN crawl_logs.mode IS '爬取模式: incremental 增量 / full 全量 / retry 重试失败 URL / refresh 刷新已入库壁纸';
+COMMENT ON COLUMN crawl_logs.deactivated_count IS '来源已删除而下线的壁纸数';
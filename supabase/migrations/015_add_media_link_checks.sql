@@ -0,0 +1,56 @@
+-- 媒体链接检查
+-- 执行时间: 2026-10-19
+-- 特点: 定期检查封面 / 预览 / 下载链接,记录检查结果,连续失败的壁纸自动下线
+
+-- ============================================================
+-- 1. 壁纸检查结果字段
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN media_checked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE wallpapers ADD COLUMN media_check JSONB;
+ALTER TABLE wallpapers ADD COLUMN media_failures INTEGER DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN wallpapers.media_checked_at IS '最近一次媒体链接检查时间';
+COMMENT ON COLUMN wallpapers.media_check IS '各媒体链接检查结果: { cover_url | preview_url | video_url: { status, content_type, content_length, ok, error } }';
+COMMENT ON COLUMN wallpapers.media_failures IS '连续检查失败次数 (任一链接不可用即计为失败)';
+
+-- 按最久未检查优先遍历
+CREATE INDEX idx_wallpapers_media_checked_at
+  ON wallpapers(media_checked_at NULLS FIRST) WHERE status = 'active';
+
+-- 检查结果变化不应刷新 updated_at
+DROP TRIGGER update_wallpapers_updated_at ON wallpapers;
+CREATE TRIGGER update_wallpapers_updated_at
+  BEFORE UPDATE ON wallpapers
+  FOR EACH ROW
+  WHEN (
+    (to_jsonb(OLD) - 'view_count' - 'download_count' - 'updated_at' - 'search_vector'
+      - 'media_checked_at' - 'media_check' - 'media_failures')
+    IS DISTINCT FROM
+    (to_jsonb(NEW) - 'view_count' - 'download_count' - 'updated_at' - 'search_vector'
+      - 'media_checked_at' - 'media_check' - 'media_failures')
+  )
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- 2. 检查任务日志
+-- ============================================================
+
+CREATE TABLE link_check_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  checked_count INTEGER DEFAULT 0 NOT NULL,      -- 检查的壁纸数
+  broken_count INTEGER DEFAULT 0 NOT NULL,       -- 存在不可用链接的壁纸数
+  deactivated_count INTEGER DEFAULT 0 NOT NULL,  -- 连续失败达到阈值而下线的壁纸数
+  recovered_count INTEGER DEFAULT 0 NOT NULL,    -- 之前失败、本次恢复正常的壁纸数
+  changes JSONB DEFAULT '[]'::jsonb NOT NULL,    -- 变更明细
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE link_check_logs IS '媒体链接检查任务日志';
+
+CREATE INDEX idx_link_check_logs_started_at ON link_check_logs(started_at DESC);
+
+ALTER TABLE link_check_logs ENABLE ROW LEVEL SECURITY;
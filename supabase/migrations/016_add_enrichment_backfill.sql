@@ -0,0 +1,35 @@
+-- AI 内容补全
+-- 执行时间: 2026-10-19
+-- 特点: 查找缺少中文翻译或使用降级描述的壁纸,由管理接口触发重新生成
+
+-- ============================================================
+-- 1. 爬取模式新增 enrich (AI 内容补全)
+-- ============================================================
+
+ALTER TABLE crawl_logs DROP CONSTRAINT crawl_logs_mode_check;
+ALTER TABLE crawl_logs ADD CONSTRAINT crawl_logs_mode_check
+  CHECK (mode IN ('incremental', 'full', 'retry', 'refresh', 'enrich'));
+
+COMMENT ON COLUMN crawl_logs.mode IS '爬取模式: incremental 增量 / full 全量 / retry 重试失败 URL / refresh 刷新已入库壁纸 / enrich AI 内容补全';
+
+-- ============================================================
+-- 2. 待补全壁纸函数
+-- ============================================================
+
+-- 缺少中文名称 / 中文标签,或描述为空 / 降级格式 "name - tag1, tag2" 的 active 壁纸 (最新的优先)
+-- 判断条件与 admin_wallpaper_stats 的缺失统计一致
+CREATE OR REPLACE FUNCTION enrichment_candidates()
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.status = 'active'
+    AND (
+      w.name_zh IS NULL OR w.name_zh = ''
+      OR w.tags_zh IS NULL OR cardinality(w.tags_zh) = 0
+      OR w.description IS NULL
+      OR w.description = w.name || ' - ' || array_to_string(w.tags, ', ')
+    )
+  ORDER BY w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION enrichment_candidates() IS '缺少 AI 内容 (中文翻译 / 描述) 的壁纸';
@@ -0,0 +1,48 @@
+-- AI 内容版本
+-- 执行时间: 2026-10-19
+-- 特点: 记录每个壁纸 AI 内容的提示词版本与模型,提示词变更后可按版本重新补全
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN ai_prompt_version TEXT;
+ALTER TABLE wallpapers ADD COLUMN ai_model TEXT;
+
+COMMENT ON COLUMN wallpapers.ai_prompt_version IS '生成 AI 内容时的提示词版本 (降级内容为空)';
+COMMENT ON COLUMN wallpapers.ai_model IS '生成 AI 内容的模型';
+
+-- 数据迁移: 已有的完整 AI 内容由 v1 提示词生成
+UPDATE wallpapers SET ai_prompt_version = 'v1'
+WHERE name_zh IS NOT NULL AND name_zh <> ''
+  AND tags_zh IS NOT NULL AND cardinality(tags_zh) > 0
+  AND description IS NOT NULL
+  AND description <> name || ' - ' || array_to_string(tags, ', ');
+
+-- ============================================================
+-- 2. 待补全壁纸函数 (支持提示词版本过期)
+-- ============================================================
+
+DROP FUNCTION enrichment_candidates();
+
+-- p_prompt_version 不为空时,同时包含由其他版本提示词生成的壁纸
+CREATE OR REPLACE FUNCTION enrichment_candidates(p_prompt_version TEXT DEFAULT NULL)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.status = 'active'
+    AND (
+      w.name_zh IS NULL OR w.name_zh = ''
+      OR w.tags_zh IS NULL OR cardinality(w.tags_zh) = 0
+      OR w.description IS NULL
+      OR w.description = w.name || ' - ' || array_to_string(w.tags, ', ')
+      OR (
+        p_prompt_version IS NOT NULL
+        AND w.ai_prompt_version IS NOT NULL
+        AND w.ai_prompt_version <> p_prompt_version
+      )
+    )
+  ORDER BY w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION enrichment_candidates(TEXT) IS '缺少 AI 内容 (中文翻译 / 描述) 或提示词版本过期的壁纸';
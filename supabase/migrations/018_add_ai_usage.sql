@@ -0,0 +1,19 @@
+-- AI 用量统计
+-- 执行时间: 2026-10-19
+-- 特点: 按爬取任务汇总 AI 请求次数与 token 用量,记录是否因超出预算而改用降级策略
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE crawl_logs ADD COLUMN ai_requests INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE crawl_logs ADD COLUMN ai_prompt_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE crawl_logs ADD COLUMN ai_completion_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE crawl_logs ADD COLUMN ai_total_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE crawl_logs ADD COLUMN ai_budget_exhausted BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN crawl_logs.ai_requests IS 'AI 请求次数 (含重试与修复请求)';
+COMMENT ON COLUMN crawl_logs.ai_prompt_tokens IS 'AI 输入 token 数';
+COMMENT ON COLUMN crawl_logs.ai_completion_tokens IS 'AI 输出 token 数';
+COMMENT ON COLUMN crawl_logs.ai_total_tokens IS 'AI 总 token 数';
+COMMENT ON COLUMN crawl_logs.ai_budget_exhausted IS '是否超出单次任务的 AI 预算 (之后的壁纸使用降级策略)';
@@ -0,0 +1,101 @@
+-- 标签翻译词典
+-- 执行时间: 2026-10-19
+-- 特点: 原文标签 → 规范中文翻译,爬取时优先查词典,只让 AI 翻译未收录的标签;人工修正可回写到壁纸
+
+-- ============================================================
+-- 1. 标签翻译表
+-- ============================================================
+
+CREATE TABLE tag_translations (
+  tag TEXT PRIMARY KEY,
+  label_zh TEXT NOT NULL CHECK (label_zh <> ''),
+  origin TEXT NOT NULL DEFAULT 'ai' CHECK (origin IN ('ai', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_tag_translations_origin ON tag_translations(origin);
+
+COMMENT ON TABLE tag_translations IS '标签翻译词典 (原文标签 → 规范中文翻译)';
+COMMENT ON COLUMN tag_translations.tag IS '原文标签 (与 wallpapers.tags 中的值一致)';
+COMMENT ON COLUMN tag_translations.label_zh IS '规范中文翻译';
+COMMENT ON COLUMN tag_translations.origin IS '来源: ai AI 翻译 / manual 人工修正';
+
+CREATE TRIGGER update_tag_translations_updated_at
+  BEFORE UPDATE ON tag_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 仅由服务端读写
+ALTER TABLE tag_translations ENABLE ROW LEVEL SECURITY;
+
+-- 数据迁移: 取已有壁纸中每个标签出现次数最多的翻译
+INSERT INTO tag_translations (tag, label_zh)
+SELECT name, name_zh
+FROM (
+  SELECT
+    t.tag AS name,
+    mode() WITHIN GROUP (ORDER BY t.tag_zh) AS name_zh
+  FROM wallpapers w
+  CROSS JOIN LATERAL unnest(w.tags, w.tags_zh) AS t(tag, tag_zh)
+  WHERE cardinality(w.tags) = cardinality(w.tags_zh)
+    AND t.tag IS NOT NULL AND t.tag <> ''
+    AND t.tag_zh IS NOT NULL AND t.tag_zh <> ''
+  GROUP BY t.tag
+) s
+WHERE name_zh IS NOT NULL;
+
+-- ============================================================
+-- 2. 词典管理视图
+-- ============================================================
+
+-- 附带 active 壁纸中的使用次数,便于优先修正常用标签
+CREATE OR REPLACE VIEW tag_translation_stats AS
+SELECT
+  tt.tag,
+  tt.label_zh,
+  tt.origin,
+  COALESCE(ts.count, 0) AS count,
+  tt.created_at,
+  tt.updated_at
+FROM tag_translations tt
+LEFT JOIN tag_stats ts ON ts.name = tt.tag;
+
+COMMENT ON VIEW tag_translation_stats IS '标签翻译词典 (含使用次数)';
+
+-- ============================================================
+-- 3. 翻译回写函数
+-- ============================================================
+
+-- 将词典中的翻译写入包含该标签的壁纸的 tags_zh 对应位置
+-- 仅处理 tags_zh 与 tags 一一对应的壁纸 (降级内容的 tags_zh 为空,交由补全任务处理)
+CREATE OR REPLACE FUNCTION propagate_tag_translation(p_tag TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_label TEXT;
+  v_count INTEGER;
+BEGIN
+  SELECT label_zh INTO v_label FROM tag_translations WHERE tag = p_tag;
+  IF v_label IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE wallpapers w
+  SET tags_zh = (
+    SELECT array_agg(CASE WHEN t.tag = p_tag THEN v_label ELSE t.tag_zh END ORDER BY t.ord)
+    FROM unnest(w.tags, w.tags_zh) WITH ORDINALITY AS t(tag, tag_zh, ord)
+  )
+  WHERE w.tags @> ARRAY[p_tag]
+    AND cardinality(w.tags) = cardinality(w.tags_zh)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(w.tags, w.tags_zh) AS t(tag, tag_zh)
+      WHERE t.tag = p_tag AND t.tag_zh IS NOT DISTINCT FROM v_label
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION propagate_tag_translation(TEXT) IS '将标签的词典翻译回写到 wallpapers.tags_zh,返回更新的壁纸数';
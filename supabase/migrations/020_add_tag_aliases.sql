@@ -0,0 +1,26 @@
+-- 标签规范化与别名
+-- 执行时间: 2026-10-19
+-- 特点: 标签统一存储为规范 slug (小写、- 分隔、单数),同义词通过别名表映射到规范标签
+
+-- ============================================================
+-- 1. 标签别名表
+-- ============================================================
+
+CREATE TABLE tag_aliases (
+  alias TEXT PRIMARY KEY,
+  tag TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT tag_aliases_not_self CHECK (alias <> tag)
+);
+
+-- 查询规范标签的所有别名
+CREATE INDEX idx_tag_aliases_tag ON tag_aliases(tag);
+
+COMMENT ON TABLE tag_aliases IS '标签别名 (同义词 slug → 规范标签 slug)';
+COMMENT ON COLUMN tag_aliases.alias IS '别名 (规范化后的 slug)';
+COMMENT ON COLUMN tag_aliases.tag IS '规范标签 (规范化后的 slug,本身不是别名)';
+
+-- 仅由服务端读写
+ALTER TABLE tag_aliases ENABLE ROW LEVEL SECURITY;
+
+-- 已有壁纸的标签由管理接口 POST /api/v1/admin/tags/normalize 重写为规范 slug
@@ -0,0 +1,103 @@
+-- 多语言翻译
+-- 执行时间: 2026-10-19
+-- 特点: 按壁纸 + 语言存储名称 / 描述 / 标签的翻译 (中文仍使用 name_zh / tags_zh),由 AI 补全任务填充,全文搜索覆盖所有语言
+
+-- ============================================================
+-- 1. 翻译表
+-- ============================================================
+
+CREATE TABLE wallpaper_translations (
+  wallpaper_id UUID NOT NULL REFERENCES wallpapers(id) ON DELETE CASCADE,
+  locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2,3}(-[a-z0-9]{2,8})?$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  tags TEXT[] DEFAULT '{}' NOT NULL,         -- 与 wallpapers.tags 按位置一一对应
+  ai_prompt_version TEXT,
+  ai_model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (wallpaper_id, locale)
+);
+
+CREATE INDEX idx_wallpaper_translations_locale ON wallpaper_translations(locale);
+
+COMMENT ON TABLE wallpaper_translations IS '壁纸多语言翻译 (中文使用 wallpapers.name_zh / tags_zh)';
+COMMENT ON COLUMN wallpaper_translations.locale IS '语言代码 (小写,如 ja / ko / pt-br)';
+COMMENT ON COLUMN wallpaper_translations.tags IS '标签翻译 (与 wallpapers.tags 按位置一一对应)';
+COMMENT ON COLUMN wallpaper_translations.ai_prompt_version IS '生成翻译时的提示词版本';
+COMMENT ON COLUMN wallpaper_translations.ai_model IS '生成翻译的模型';
+
+CREATE TRIGGER update_wallpaper_translations_updated_at
+  BEFORE UPDATE ON wallpaper_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 仅由服务端读写
+ALTER TABLE wallpaper_translations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. 全文搜索包含所有语言
+-- ============================================================
+
+-- 在原有字段基础上追加各语言翻译 (名称 A, 描述 B, 标签 C)
+CREATE OR REPLACE FUNCTION update_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.name_zh, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(array_to_string(NEW.tags, ' '), '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(array_to_string(NEW.tags_zh, ' '), '')), 'C') ||
+    coalesce((
+      SELECT
+        setweight(to_tsvector('simple', string_agg(t.name, ' ')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(string_agg(t.description, ' '), '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(string_agg(array_to_string(t.tags, ' '), ' '), '')), 'C')
+      FROM wallpaper_translations t
+      WHERE t.wallpaper_id = NEW.id
+    ), ''::tsvector);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 翻译变化时重新计算壁纸的 search_vector
+-- (置空后由 update_wallpapers_search_vector 触发器重新计算;updated_at 触发器忽略 search_vector)
+CREATE OR REPLACE FUNCTION refresh_wallpaper_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE wallpapers SET search_vector = NULL
+  WHERE id = COALESCE(NEW.wallpaper_id, OLD.wallpaper_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_wallpaper_translations_search_vector
+  AFTER INSERT OR UPDATE OR DELETE ON wallpaper_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_wallpaper_search_vector();
+
+COMMENT ON FUNCTION refresh_wallpaper_search_vector() IS '翻译变化时重新计算壁纸的全文搜索向量';
+
+-- ============================================================
+-- 3. 待翻译壁纸函数
+-- ============================================================
+
+-- 缺少任一目标语言翻译 (或 p_prompt_version 不为空时翻译版本过期) 的 active 壁纸,需已有中文内容作为参考
+CREATE OR REPLACE FUNCTION translation_candidates(p_locales TEXT[], p_prompt_version TEXT DEFAULT NULL)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.status = 'active'
+    AND w.name_zh IS NOT NULL AND w.name_zh <> ''
+    AND EXISTS (
+      SELECT 1
+      FROM unnest(p_locales) AS l(locale)
+      LEFT JOIN wallpaper_translations t ON t.wallpaper_id = w.id AND t.locale = l.locale
+      WHERE t.wallpaper_id IS NULL
+        OR (p_prompt_version IS NOT NULL AND t.ai_prompt_version IS DISTINCT FROM p_prompt_version)
+    )
+  ORDER BY w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION translation_candidates(TEXT[], TEXT) IS '缺少目标语言翻译或翻译版本过期的壁纸';
@@ -0,0 +1,52 @@
+-- 壁纸人工修改与字段锁定
+-- 执行时间: 2026-10-19
+-- 特点: 管理接口修改的字段记录为锁定,之后的爬取 / 刷新 / 补全 / 链接检查不再覆盖
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE wallpapers ADD COLUMN locked_fields TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE wallpapers ADD CONSTRAINT wallpapers_locked_fields_check
+  CHECK (locked_fields <@ ARRAY['name_zh', 'description', 'tags', 'tags_zh', 'status']);
+
+COMMENT ON COLUMN wallpapers.locked_fields IS '人工修改后锁定的字段 (name_zh / description / tags / tags_zh / status),自动任务不再覆盖';
+
+-- ============================================================
+-- 2. 待补全壁纸函数 (跳过已锁定的字段)
+-- ============================================================
+
+-- 缺失的字段均已锁定、或 AI 生成的字段全部锁定时不再作为补全候选
+CREATE OR REPLACE FUNCTION enrichment_candidates(p_prompt_version TEXT DEFAULT NULL)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.status = 'active'
+    AND (
+      (
+        NOT 'name_zh' = ANY(w.locked_fields)
+        AND (w.name_zh IS NULL OR w.name_zh = '')
+      )
+      OR (
+        NOT 'tags_zh' = ANY(w.locked_fields)
+        AND (w.tags_zh IS NULL OR cardinality(w.tags_zh) = 0)
+      )
+      OR (
+        NOT 'description' = ANY(w.locked_fields)
+        AND (
+          w.description IS NULL
+          OR w.description = w.name || ' - ' || array_to_string(w.tags, ', ')
+        )
+      )
+      OR (
+        p_prompt_version IS NOT NULL
+        AND w.ai_prompt_version IS NOT NULL
+        AND w.ai_prompt_version <> p_prompt_version
+        AND NOT w.locked_fields @> ARRAY['name_zh', 'description', 'tags_zh']
+      )
+    )
+  ORDER BY w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION enrichment_candidates(TEXT) IS '缺少 AI 内容 (中文翻译 / 描述) 或提示词版本过期的壁纸 (跳过已锁定的字段)';
@@ -0,0 +1,90 @@
+-- 壁纸批量操作
+-- 执行时间: 2026-10-19
+-- 特点: 按条件批量上下线、增删标签、重新补全或删除壁纸,每次执行记录审计日志
+
+-- ============================================================
+-- 1. 批量操作审计日志
+-- ============================================================
+
+CREATE TABLE wallpaper_bulk_operations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  action TEXT NOT NULL
+    CHECK (action IN ('activate', 'deactivate', 'add_tag', 'remove_tag', 're_enrich', 'delete')),
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  filter JSONB NOT NULL,                          -- 筛选条件
+  tag TEXT,                                       -- add_tag / remove_tag 的标签 (规范 slug)
+  matched_count INTEGER DEFAULT 0 NOT NULL,       -- 匹配的壁纸数
+  affected_count INTEGER DEFAULT 0 NOT NULL,      -- 实际变更的壁纸数 (re_enrich 为提交补全的数量)
+  wallpaper_ids UUID[] DEFAULT '{}' NOT NULL,     -- 匹配的壁纸 ID
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+COMMENT ON TABLE wallpaper_bulk_operations IS '壁纸批量操作审计日志 (dry-run 不记录)';
+
+CREATE INDEX idx_wallpaper_bulk_operations_created_at ON wallpaper_bulk_operations(created_at DESC);
+
+-- 仅由服务端读写
+ALTER TABLE wallpaper_bulk_operations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. 批量更新函数
+-- ============================================================
+
+-- 上下线锁定 status,增删标签锁定 tags (与人工修改一致,之后的爬取不再覆盖)
+-- 删除标签时同步删除 tags_zh 中对应位置的翻译;tags_zh 与 tags 未对齐时保持不变
+-- 返回实际变更的壁纸数
+CREATE OR REPLACE FUNCTION bulk_update_wallpapers(
+  p_ids UUID[],
+  p_action TEXT,
+  p_tag TEXT DEFAULT NULL,
+  p_tag_zh TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  IF p_action IN ('activate', 'deactivate') THEN
+    UPDATE wallpapers
+    SET status = CASE p_action WHEN 'activate' THEN 'active' ELSE 'inactive' END,
+        locked_fields = CASE WHEN 'status' = ANY(locked_fields)
+          THEN locked_fields ELSE array_append(locked_fields, 'status') END
+    WHERE id = ANY(p_ids)
+      AND status <> CASE p_action WHEN 'activate' THEN 'active' ELSE 'inactive' END;
+
+  ELSIF p_action = 'add_tag' THEN
+    UPDATE wallpapers
+    SET tags = array_append(tags, p_tag),
+        tags_zh = CASE WHEN cardinality(tags_zh) = cardinality(tags)
+          THEN array_append(tags_zh, COALESCE(p_tag_zh, p_tag)) ELSE tags_zh END,
+        locked_fields = CASE WHEN 'tags' = ANY(locked_fields)
+          THEN locked_fields ELSE array_append(locked_fields, 'tags') END
+    WHERE id = ANY(p_ids)
+      AND NOT p_tag = ANY(tags);
+
+  ELSIF p_action = 'remove_tag' THEN
+    UPDATE wallpapers w
+    SET tags = array_remove(w.tags, p_tag),
+        tags_zh = CASE WHEN cardinality(w.tags_zh) = cardinality(w.tags) THEN (
+          SELECT COALESCE(array_agg(u.tag_zh ORDER BY u.position), '{}')
+          FROM unnest(w.tags, w.tags_zh) WITH ORDINALITY AS u(tag, tag_zh, position)
+          WHERE u.tag <> p_tag
+        ) ELSE w.tags_zh END,
+        locked_fields = CASE WHEN 'tags' = ANY(w.locked_fields)
+          THEN w.locked_fields ELSE array_append(w.locked_fields, 'tags') END
+    WHERE w.id = ANY(p_ids)
+      AND p_tag = ANY(w.tags);
+
+  ELSIF p_action = 'delete' THEN
+    DELETE FROM wallpapers WHERE id = ANY(p_ids);
+
+  ELSE
+    RAISE EXCEPTION 'unsupported bulk action: %', p_action;
+  END IF;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION bulk_update_wallpapers(UUID[], TEXT, TEXT, TEXT) IS '批量上下线 / 增删标签 / 删除壁纸,返回变更的壁纸数';
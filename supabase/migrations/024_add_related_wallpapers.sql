@@ -0,0 +1,37 @@
+-- 相关壁纸推荐
+-- 执行时间: 2026-10-19
+-- 特点: 按标签重合度、相同分类和名称三元组相似度为壁纸详情页推荐相关壁纸
+
+-- ============================================================
+-- 1. 相关壁纸函数
+-- ============================================================
+
+-- 候选: 与目标壁纸有共同标签 (idx_wallpapers_tags)、相同分类 (idx_wallpapers_category)
+-- 或名称相似 (idx_wallpapers_name_trgm) 的其他 active 壁纸
+-- 得分: 标签重合比例 0.6 + 相同分类 0.25 + 名称相似度 0.15,同分时下载量高、较新的优先
+-- 目标壁纸不存在时返回空
+CREATE OR REPLACE FUNCTION related_wallpapers(p_id UUID, p_limit INTEGER DEFAULT 12)
+RETURNS SETOF wallpapers AS $$
+  WITH target AS (
+    SELECT id, name, tags, category
+    FROM wallpapers
+    WHERE id = p_id
+  )
+  SELECT w.*
+  FROM wallpapers w, target t
+  WHERE w.status = 'active'
+    AND w.id <> t.id
+    AND (w.tags && t.tags OR w.category = t.category OR w.name % t.name)
+  ORDER BY
+    0.6 * (
+      SELECT count(*) FROM unnest(w.tags) AS tag WHERE tag = ANY(t.tags)
+    )::float / greatest(cardinality(t.tags), 1)
+    + 0.25 * (w.category IS NOT NULL AND w.category = t.category)::int
+    + 0.15 * similarity(w.name, t.name)
+    DESC,
+    w.download_count DESC,
+    w.crawled_at DESC
+  LIMIT p_limit
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION related_wallpapers(UUID, INTEGER) IS '相关壁纸 (标签重合度、相同分类、名称相似度排序)';
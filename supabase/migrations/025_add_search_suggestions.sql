@@ -0,0 +1,71 @@
+-- 搜索建议
+-- 执行时间: 2026-10-19
+-- 特点: 输入搜索词时返回匹配的壁纸名称、原文标签和中文标签,按相似度和热度排序
+
+-- ============================================================
+-- 1. 搜索建议函数
+-- ============================================================
+
+-- 候选: 名称 / 标签包含搜索词,或与搜索词中的某个词三元组相似 (<% 容忍拼写错误)
+-- 得分: 完全匹配 1、前缀匹配 0.9、包含 0.6,与 word_similarity 取较大值
+-- 排序: 得分 (按 0.1 分档) 优先,同档内按热度 (名称为下载量 * 3 + 浏览量,标签为使用次数)
+-- 调用方需去除搜索词中的 LIKE 通配符 (% _ \)
+CREATE OR REPLACE FUNCTION search_suggestions(p_query TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  type TEXT,
+  value TEXT,
+  label TEXT,
+  popularity INTEGER,
+  score REAL
+) AS $$
+  WITH names AS (
+    SELECT
+      'name'::TEXT AS type,
+      w.name AS value,
+      max(w.name_zh) AS label,
+      sum(w.download_count * 3 + w.view_count)::INTEGER AS popularity
+    FROM wallpapers w
+    WHERE w.status = 'active'
+      AND (p_query <% w.name OR w.name ILIKE '%' || p_query || '%')
+    GROUP BY w.name
+  ),
+  stats AS MATERIALIZED (
+    SELECT s.name, s.name_zh, s.count
+    FROM tag_stats s
+    WHERE p_query <% s.name OR s.name ILIKE '%' || p_query || '%'
+      OR p_query <% s.name_zh OR s.name_zh ILIKE '%' || p_query || '%'
+  ),
+  candidates AS (
+    SELECT * FROM names
+    UNION ALL
+    SELECT 'tag', s.name, s.name_zh, s.count
+    FROM stats s
+    WHERE p_query <% s.name OR s.name ILIKE '%' || p_query || '%'
+    UNION ALL
+    -- 多个原文标签可能共用同一中文翻译
+    SELECT 'tag_zh', s.name_zh, min(s.name), sum(s.count)::INTEGER
+    FROM stats s
+    WHERE p_query <% s.name_zh OR s.name_zh ILIKE '%' || p_query || '%'
+    GROUP BY s.name_zh
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      greatest(
+        word_similarity(p_query, c.value),
+        CASE
+          WHEN lower(c.value) = lower(p_query) THEN 1
+          WHEN c.value ILIKE p_query || '%' THEN 0.9
+          WHEN c.value ILIKE '%' || p_query || '%' THEN 0.6
+          ELSE 0
+        END
+      )::REAL AS score
+    FROM candidates c
+  )
+  SELECT *
+  FROM scored
+  ORDER BY round(score::NUMERIC, 1) DESC, popularity DESC, length(value)
+  LIMIT p_limit
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_suggestions(TEXT, INTEGER) IS '搜索建议: 壁纸名称、原文标签、中文标签 (相似度与热度排序)';
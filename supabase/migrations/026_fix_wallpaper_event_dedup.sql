@@ -0,0 +1,66 @@
+-- 浏览 / 下载事件去重修复与事件保留期
+-- 执行时间: 2026-10-19
+-- 特点: 同一 IP 的并发事件串行去重 + 定期清理过期事件
+
+-- ============================================================
+-- 1. 重新定义记录事件函数
+-- ============================================================
+
+-- 先按 (壁纸, 事件类型, IP) 加事务级咨询锁,避免并发请求同时通过去重检查而重复计数
+CREATE OR REPLACE FUNCTION record_wallpaper_event(
+  p_wallpaper_id UUID,
+  p_event_type TEXT,
+  p_ip_hash TEXT,
+  p_dedup_minutes INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_wallpaper_id::text || ':' || p_event_type || ':' || p_ip_hash));
+
+  IF EXISTS (
+    SELECT 1
+    FROM wallpaper_events
+    WHERE wallpaper_id = p_wallpaper_id
+      AND event_type = p_event_type
+      AND ip_hash = p_ip_hash
+      AND created_at > timezone('utc'::text, now()) - make_interval(mins => p_dedup_minutes)
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO wallpaper_events (wallpaper_id, event_type, ip_hash)
+  VALUES (p_wallpaper_id, p_event_type, p_ip_hash);
+
+  IF p_event_type = 'download' THEN
+    UPDATE wallpapers SET download_count = download_count + 1 WHERE id = p_wallpaper_id;
+  ELSE
+    UPDATE wallpapers SET view_count = view_count + 1 WHERE id = p_wallpaper_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION record_wallpaper_event(UUID, TEXT, TEXT, INTEGER) IS '记录浏览 / 下载事件 (按 IP 去重,并发安全)';
+
+-- ============================================================
+-- 2. 清理过期事件函数
+-- ============================================================
+
+-- 趋势排序只读取近 7 天事件,去重窗口不超过 1 小时,更早的事件可删除
+-- 计数器已累加在 wallpapers 表中,删除事件不影响浏览量 / 下载量
+-- 保留天数不少于 7 天,避免误删趋势计算所需的事件
+CREATE OR REPLACE FUNCTION cleanup_wallpaper_events(p_retention_days INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM wallpaper_events
+  WHERE created_at < timezone('utc'::text, now()) - make_interval(days => GREATEST(p_retention_days, 7));
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION cleanup_wallpaper_events(INTEGER) IS '删除超过保留天数的浏览 / 下载事件,返回删除数量';
@@ -0,0 +1,11 @@
+-- 媒体链接检查终止标记
+-- 执行时间: 2026-10-19
+-- 特点: 记录链接检查任务是否被手动终止
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE link_check_logs ADD COLUMN aborted BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN link_check_logs.aborted IS '是否被手动终止';
@@ -0,0 +1,76 @@
+-- 多语言翻译随标签变化失效
+-- 执行时间: 2026-10-19
+-- 特点: wallpapers.tags 变化时 (人工修改 / 批量增删标签 / 标签规范化) 按标签重新对齐翻译,新增标签的翻译标记为待更新
+
+-- ============================================================
+-- 1. 添加字段
+-- ============================================================
+
+ALTER TABLE wallpaper_translations ADD COLUMN stale BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN wallpaper_translations.stale IS '标签变化后待重新翻译';
+
+-- ============================================================
+-- 2. 标签变化时重新对齐翻译
+-- ============================================================
+
+-- 保留的标签沿用原有翻译,新增标签暂用原文并标记为待重新翻译;
+-- 原有翻译与旧标签数量不一致 (无法按位置对应) 时整体使用原文
+CREATE OR REPLACE FUNCTION realign_wallpaper_translations()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_tags TEXT[] := coalesce(OLD.tags, '{}');
+  v_new_tags TEXT[] := coalesce(NEW.tags, '{}');
+BEGIN
+  UPDATE wallpaper_translations t
+  SET
+    tags = coalesce((
+      SELECT array_agg(
+        CASE
+          WHEN cardinality(t.tags) = cardinality(v_old_tags)
+            THEN coalesce(t.tags[array_position(v_old_tags, n.tag)], n.tag)
+          ELSE n.tag
+        END
+        ORDER BY n.ord
+      )
+      FROM unnest(v_new_tags) WITH ORDINALITY AS n(tag, ord)
+    ), '{}'),
+    stale = t.stale
+      OR cardinality(t.tags) <> cardinality(v_old_tags)
+      OR NOT (v_new_tags <@ v_old_tags)
+  WHERE t.wallpaper_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER realign_wallpaper_translations_on_tags
+  AFTER UPDATE OF tags ON wallpapers
+  FOR EACH ROW
+  WHEN (OLD.tags IS DISTINCT FROM NEW.tags)
+  EXECUTE FUNCTION realign_wallpaper_translations();
+
+COMMENT ON FUNCTION realign_wallpaper_translations() IS '标签变化时按标签重新对齐多语言翻译,新增标签标记为待重新翻译';
+
+-- ============================================================
+-- 3. 待翻译壁纸包含待更新的翻译
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION translation_candidates(p_locales TEXT[], p_prompt_version TEXT DEFAULT NULL)
+RETURNS SETOF wallpapers AS $$
+  SELECT w.*
+  FROM wallpapers w
+  WHERE w.status = 'active'
+    AND w.name_zh IS NOT NULL AND w.name_zh <> ''
+    AND EXISTS (
+      SELECT 1
+      FROM unnest(p_locales) AS l(locale)
+      LEFT JOIN wallpaper_translations t ON t.wallpaper_id = w.id AND t.locale = l.locale
+      WHERE t.wallpaper_id IS NULL
+        OR t.stale
+        OR (p_prompt_version IS NOT NULL AND t.ai_prompt_version IS DISTINCT FROM p_prompt_version)
+    )
+  ORDER BY w.crawled_at DESC
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION translation_candidates(TEXT[], TEXT) IS '缺少目标语言翻译、翻译待更新或翻译版本过期的壁纸';
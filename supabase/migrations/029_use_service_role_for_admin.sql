@@ -0,0 +1,12 @@
+-- 管理端改用 service role 客户端
+-- 执行时间: 2026-10-19
+-- 特点: 管理接口和后台维护任务通过 service role 访问 (不受 RLS 限制),管理函数不再需要 SECURITY DEFINER
+
+-- ============================================================
+-- 1. 管理函数改为 SECURITY INVOKER
+-- ============================================================
+
+-- 原先以 SECURITY DEFINER 绕过 RLS,anon 客户端也可调用;
+-- 改为调用者权限后 anon 只能统计 active 壁纸、无法删除事件,管理端通过 service role 获得完整数据
+ALTER FUNCTION admin_wallpaper_stats(INTEGER) SECURITY INVOKER;
+ALTER FUNCTION cleanup_wallpaper_events(INTEGER) SECURITY INVOKER;
@@ -0,0 +1,39 @@
+-- 标签翻译回写跳过锁定的中文标签
+-- 执行时间: 2026-10-19
+-- 特点: propagate_tag_translation 不再覆盖人工锁定的 tags_zh
+
+-- ============================================================
+-- 1. 重新定义回写函数
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION propagate_tag_translation(p_tag TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_label TEXT;
+  v_count INTEGER;
+BEGIN
+  SELECT label_zh INTO v_label FROM tag_translations WHERE tag = p_tag;
+  IF v_label IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE wallpapers w
+  SET tags_zh = (
+    SELECT array_agg(CASE WHEN t.tag = p_tag THEN v_label ELSE t.tag_zh END ORDER BY t.ord)
+    FROM unnest(w.tags, w.tags_zh) WITH ORDINALITY AS t(tag, tag_zh, ord)
+  )
+  WHERE w.tags @> ARRAY[p_tag]
+    AND cardinality(w.tags) = cardinality(w.tags_zh)
+    AND NOT 'tags_zh' = ANY(w.locked_fields)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(w.tags, w.tags_zh) AS t(tag, tag_zh)
+      WHERE t.tag = p_tag AND t.tag_zh IS NOT DISTINCT FROM v_label
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION propagate_tag_translation(TEXT) IS '将标签的词典翻译回写到 wallpapers.tags_zh (跳过锁定 tags_zh 的壁纸),返回更新的壁纸数';
@@ -0,0 +1,22 @@
+-- 批量操作异步结果
+-- 执行时间: 2026-10-19
+-- 特点: re_enrich 先记录为 pending,补全任务结束后回写状态、变更数量和对应的爬取日志
+
+-- ============================================================
+-- 1. 扩展审计日志
+-- ============================================================
+
+ALTER TABLE wallpaper_bulk_operations DROP CONSTRAINT wallpaper_bulk_operations_status_check;
+ALTER TABLE wallpaper_bulk_operations ADD CONSTRAINT wallpaper_bulk_operations_status_check
+  CHECK (status IN ('pending', 'success', 'failed'));
+
+ALTER TABLE wallpaper_bulk_operations
+  ADD COLUMN crawl_log_id UUID REFERENCES crawl_logs(id) ON DELETE SET NULL;
+ALTER TABLE wallpaper_bulk_operations ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN wallpaper_bulk_operations.status IS 'pending = 异步任务 (re_enrich) 执行中';
+COMMENT ON COLUMN wallpaper_bulk_operations.crawl_log_id IS 're_enrich 对应的补全任务日志';
+COMMENT ON COLUMN wallpaper_bulk_operations.completed_at IS '异步任务结束时间';
+
+-- 已有的 re_enrich 记录提交时即记为 success,无法确认结果
+UPDATE wallpaper_bulk_operations SET completed_at = created_at WHERE completed_at IS NULL;
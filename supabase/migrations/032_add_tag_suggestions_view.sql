@@ -0,0 +1,100 @@
+-- 搜索建议标签物化视图
+-- 执行时间: 2026-10-19
+-- 特点: 标签建议改为查询带三元组索引的物化视图,避免每次输入都对 tag_stats 全量展开聚合;由定时任务刷新
+
+-- ============================================================
+-- 1. 标签建议物化视图
+-- ============================================================
+
+CREATE MATERIALIZED VIEW tag_suggestions AS
+SELECT name, name_zh, count
+FROM tag_stats;
+
+COMMENT ON MATERIALIZED VIEW tag_suggestions IS '搜索建议使用的标签目录快照 (定时刷新)';
+
+-- 唯一索引: 支持 REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX idx_tag_suggestions_name ON tag_suggestions(name);
+
+-- 三元组索引: 支持 ILIKE 和 <% 相似度匹配
+CREATE INDEX idx_tag_suggestions_name_trgm ON tag_suggestions USING GIN(name gin_trgm_ops);
+CREATE INDEX idx_tag_suggestions_name_zh_trgm ON tag_suggestions USING GIN(name_zh gin_trgm_ops);
+
+-- ============================================================
+-- 2. 刷新函数
+-- ============================================================
+
+-- 刷新物化视图需要视图所有者权限,因此使用 SECURITY DEFINER,并只允许 service role 调用
+CREATE OR REPLACE FUNCTION refresh_tag_suggestions()
+RETURNS VOID AS $$
+  REFRESH MATERIALIZED VIEW CONCURRENTLY tag_suggestions
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_tag_suggestions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_tag_suggestions() TO service_role;
+
+COMMENT ON FUNCTION refresh_tag_suggestions() IS '刷新搜索建议的标签快照';
+
+-- ============================================================
+-- 3. 搜索建议函数改用物化视图
+-- ============================================================
+
+-- 匹配与排序规则不变 (见 025),标签候选改为查询 tag_suggestions
+CREATE OR REPLACE FUNCTION search_suggestions(p_query TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  type TEXT,
+  value TEXT,
+  label TEXT,
+  popularity INTEGER,
+  score REAL
+) AS $$
+  WITH names AS (
+    SELECT
+      'name'::TEXT AS type,
+      w.name AS value,
+      max(w.name_zh) AS label,
+      sum(w.download_count * 3 + w.view_count)::INTEGER AS popularity
+    FROM wallpapers w
+    WHERE w.status = 'active'
+      AND (p_query <% w.name OR w.name ILIKE '%' || p_query || '%')
+    GROUP BY w.name
+  ),
+  stats AS MATERIALIZED (
+    SELECT s.name, s.name_zh, s.count
+    FROM tag_suggestions s
+    WHERE p_query <% s.name OR s.name ILIKE '%' || p_query || '%'
+      OR p_query <% s.name_zh OR s.name_zh ILIKE '%' || p_query || '%'
+  ),
+  candidates AS (
+    SELECT * FROM names
+    UNION ALL
+    SELECT 'tag', s.name, s.name_zh, s.count
+    FROM stats s
+    WHERE p_query <% s.name OR s.name ILIKE '%' || p_query || '%'
+    UNION ALL
+    -- 多个原文标签可能共用同一中文翻译
+    SELECT 'tag_zh', s.name_zh, min(s.name), sum(s.count)::INTEGER
+    FROM stats s
+    WHERE p_query <% s.name_zh OR s.name_zh ILIKE '%' || p_query || '%'
+    GROUP BY s.name_zh
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      greatest(
+        word_similarity(p_query, c.value),
+        CASE
+          WHEN lower(c.value) = lower(p_query) THEN 1
+          WHEN c.value ILIKE p_query || '%' THEN 0.9
+          WHEN c.value ILIKE '%' || p_query || '%' THEN 0.6
+          ELSE 0
+        END
+      )::REAL AS score
+    FROM candidates c
+  )
+  SELECT *
+  FROM scored
+  ORDER BY round(score::NUMERIC, 1) DESC, popularity DESC, length(value)
+  LIMIT p_limit
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_suggestions(TEXT, INTEGER) IS '搜索建议: 壁纸名称、原文标签、中文标签 (相似度与热度排序)';
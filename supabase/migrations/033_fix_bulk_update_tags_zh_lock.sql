@@ -0,0 +1,65 @@
+-- 批量增删标签跳过锁定的中文标签
+-- 执行时间: 2026-10-19
+-- 特点: bulk_update_wallpapers 的 add_tag / remove_tag 不再改写人工锁定的 tags_zh
+
+-- ============================================================
+-- 1. 重新定义批量操作函数
+-- ============================================================
+
+-- tags_zh 被锁定时只改写 tags,tags_zh 保持人工修改的内容 (数量不一致时本地化回退到原文标签)
+CREATE OR REPLACE FUNCTION bulk_update_wallpapers(
+  p_ids UUID[],
+  p_action TEXT,
+  p_tag TEXT DEFAULT NULL,
+  p_tag_zh TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  IF p_action IN ('activate', 'deactivate') THEN
+    UPDATE wallpapers
+    SET status = CASE p_action WHEN 'activate' THEN 'active' ELSE 'inactive' END,
+        locked_fields = CASE WHEN 'status' = ANY(locked_fields)
+          THEN locked_fields ELSE array_append(locked_fields, 'status') END
+    WHERE id = ANY(p_ids)
+      AND status <> CASE p_action WHEN 'activate' THEN 'active' ELSE 'inactive' END;
+
+  ELSIF p_action = 'add_tag' THEN
+    UPDATE wallpapers
+    SET tags = array_append(tags, p_tag),
+        tags_zh = CASE WHEN cardinality(tags_zh) = cardinality(tags)
+            AND NOT 'tags_zh' = ANY(locked_fields)
+          THEN array_append(tags_zh, COALESCE(p_tag_zh, p_tag)) ELSE tags_zh END,
+        locked_fields = CASE WHEN 'tags' = ANY(locked_fields)
+          THEN locked_fields ELSE array_append(locked_fields, 'tags') END
+    WHERE id = ANY(p_ids)
+      AND NOT p_tag = ANY(tags);
+
+  ELSIF p_action = 'remove_tag' THEN
+    UPDATE wallpapers w
+    SET tags = array_remove(w.tags, p_tag),
+        tags_zh = CASE WHEN cardinality(w.tags_zh) = cardinality(w.tags)
+            AND NOT 'tags_zh' = ANY(w.locked_fields) THEN (
+          SELECT COALESCE(array_agg(u.tag_zh ORDER BY u.position), '{}')
+          FROM unnest(w.tags, w.tags_zh) WITH ORDINALITY AS u(tag, tag_zh, position)
+          WHERE u.tag <> p_tag
+        ) ELSE w.tags_zh END,
+        locked_fields = CASE WHEN 'tags' = ANY(w.locked_fields)
+          THEN w.locked_fields ELSE array_append(w.locked_fields, 'tags') END
+    WHERE w.id = ANY(p_ids)
+      AND p_tag = ANY(w.tags);
+
+  ELSIF p_action = 'delete' THEN
+    DELETE FROM wallpapers WHERE id = ANY(p_ids);
+
+  ELSE
+    RAISE EXCEPTION 'unsupported bulk action: %', p_action;
+  END IF;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION bulk_update_wallpapers(UUID[], TEXT, TEXT, TEXT) IS '批量上下线 / 增删标签 / 删除壁纸,返回变更的壁纸数 (不改写锁定的 tags_zh)';